@@ -1,6 +1,6 @@
 
-import React, { useState } from 'react';
-import { AppView, AiProvider } from './types';
+import React, { useState, useEffect } from 'react';
+import { AppView, AiProvider, LearnerProfile } from './types';
 import { Navigation } from './components/Navigation';
 import { Dashboard } from './components/Dashboard';
 import { VocabularyBuilder } from './components/VocabularyBuilder';
@@ -8,7 +8,25 @@ import { WritingLab } from './components/WritingLab';
 import { OralCoach } from './components/OralCoach';
 import { Library } from './components/Library';
 import { QuizRoom } from './components/QuizRoom';
-import { Sparkles, Cpu, Lock, ArrowRight, AlertCircle } from 'lucide-react';
+import { ReviewSession } from './components/ReviewSession';
+import { ProfilePicker } from './components/ProfilePicker';
+import { VaultUnlock } from './components/VaultUnlock';
+import { VaultSettings } from './components/VaultSettings';
+import { SyncSettings } from './components/SyncSettings';
+import { ProviderSettings } from './components/ProviderSettings';
+import { UsagePage } from './components/UsagePage';
+import { PromptSettings } from './components/PromptSettings';
+import { profileService } from './services/profileService';
+import { vaultService } from './services/vaultService';
+import { syncService, AUTO_SYNC_INTERVAL_MS } from './services/syncService';
+import { listProviders, getProvider, hasProvider, configureCustomEndpoint, DEFAULT_PROVIDER, CUSTOM_PROVIDER_ID } from './services/aiProviders';
+import { configureAiRequests } from './services/aiRequest';
+import { configureAiCache } from './services/aiCache';
+import { configureUsage, setBudgetGuard } from './services/usageService';
+import { configurePrompts } from './services/promptTemplates';
+import { configureMockProvider, IS_MOCK_FORCED } from './services/mockProvider';
+import { configureRouting } from './services/aiRouting';
+import { Sparkles, Cpu, Lock, ArrowRight, AlertCircle, UserCircle, Loader2, ShieldCheck, ShieldOff, RefreshCw, Settings2, ScrollText } from 'lucide-react';
 
 // --- CONFIGURATION ---
 // Get password from environment variable or default to "8888"
@@ -29,7 +47,108 @@ export default function App() {
 
   // App View State
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [provider, setProvider] = useState<AiProvider>('deepseek');
+  const [provider, setProvider] = useState<AiProvider>(DEFAULT_PROVIDER);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [isPromptSettingsOpen, setIsPromptSettingsOpen] = useState(false);
+
+  // Profile State: the picker is shown after unlock until a learner is chosen in this tab
+  const [activeProfile, setActiveProfile] = useState<LearnerProfile | null>(null);
+  const [isRestoringProfile, setIsRestoringProfile] = useState<boolean>(() => !!profileService.getRemembered());
+
+  // Vault State: an encrypted profile stays locked until its passphrase is entered
+  const [isVaultLocked, setIsVaultLocked] = useState(false);
+  const [isVaultSettingsOpen, setIsVaultSettingsOpen] = useState(false);
+
+  // Sync State: pulled changes reach the views through the shared library store
+  const [isSyncSettingsOpen, setIsSyncSettingsOpen] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Soft budgets ask here before an AI call that would likely go over
+  useEffect(() => {
+    setBudgetGuard(({ period, limitUsd, spentUsd, estimateUsd }) => confirm(
+      `This AI call will probably take you over your ${period === 'day' ? 'daily' : 'monthly'} budget of $${limitUsd.toFixed(2)} ` +
+      `(spent so far: $${spentUsd.toFixed(2)}, this call: about $${estimateUsd.toFixed(3)}).\n\nContinue anyway? You won't be asked again this ${period}.`
+    ));
+  }, []);
+
+  useEffect(() => {
+    const remembered = profileService.getRemembered();
+    if (remembered) {
+      selectProfile(remembered)
+        // A blocked upgrade, a full disk or a deleted profile: fall back to the picker
+        .catch(error => {
+          console.error("Could not reopen the last profile", error);
+          profileService.forgetActive();
+          setActiveProfile(null);
+          alert(`Could not open the profile "${remembered.name}": ${error.message}`);
+        })
+        .finally(() => setIsRestoringProfile(false));
+    }
+  }, []);
+
+  const selectProfile = async (profile: LearnerProfile) => {
+    await profileService.activate(profile.id);
+    const encrypted = await vaultService.load();
+    setIsVaultLocked(encrypted);
+    const settings = await profileService.getSettings();
+    configureCustomEndpoint(settings.customEndpoint || null);
+    configureAiRequests(settings.aiRequest || {});
+    configureAiCache(settings.aiCache || {});
+    configureUsage({ prices: settings.aiPrices, budget: settings.aiBudget });
+    configurePrompts(settings.prompts);
+    configureMockProvider(settings.mockProvider || {});
+    configureRouting(settings.aiRouting);
+    // A provider that is no longer registered falls back to the default; MOCK_AI starts on the mock one
+    setProvider(!IS_MOCK_FORCED && settings.aiProvider && hasProvider(settings.aiProvider) ? settings.aiProvider : DEFAULT_PROVIDER);
+    setCurrentView(AppView.DASHBOARD);
+    setActiveProfile(profile);
+  };
+
+  const handleSwitchProfile = () => {
+    vaultService.lock();
+    profileService.forgetActive();
+    setIsVaultSettingsOpen(false);
+    setIsSyncSettingsOpen(false);
+    setIsProviderSettingsOpen(false);
+    setIsPromptSettingsOpen(false);
+    setActiveProfile(null);
+  };
+
+  const handleLockVault = () => {
+    vaultService.lock();
+    setIsVaultSettingsOpen(false);
+    setIsVaultLocked(true);
+  };
+
+  const runAutoSync = async () => {
+    const config = await syncService.getConfig();
+    if (!config?.autoSync || vaultService.isEnabled()) return;
+    setIsSyncing(true);
+    try {
+      await syncService.sync();
+    } catch (e) {
+      console.error("Background sync failed", e);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!activeProfile || isVaultLocked) return;
+    runAutoSync();
+    const timer = setInterval(runAutoSync, AUTO_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeProfile, isVaultLocked]);
+
+  const handleProviderChange = (next: AiProvider) => {
+    // The custom endpoint has to be set up before it can answer
+    if (next === CUSTOM_PROVIDER_ID && !getProvider(next).isConfigured()) {
+      setIsProviderSettingsOpen(true);
+      return;
+    }
+    setProvider(next);
+    profileService.updateSettings({ aiProvider: next }).catch(e => console.error("Failed to save settings", e));
+  };
 
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,13 +171,17 @@ export default function App() {
       case AppView.VOCABULARY:
         return <VocabularyBuilder aiProvider={provider} />;
       case AppView.LIBRARY:
-        return <Library />;
+        return <Library aiProvider={provider} profileName={activeProfile?.name} />;
       case AppView.WRITING:
         return <WritingLab aiProvider={provider} />;
       case AppView.SPEAKING:
         return <OralCoach aiProvider={provider} />;
       case AppView.QUIZ:
         return <QuizRoom aiProvider={provider} />;
+      case AppView.REVIEW:
+        return <ReviewSession />;
+      case AppView.USAGE:
+        return <UsagePage />;
       default:
         return <Dashboard setView={setCurrentView} />;
     }
@@ -118,6 +241,23 @@ export default function App() {
     );
   }
 
+  // --- PROFILE PICKER RENDER ---
+  if (isRestoringProfile) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  if (!activeProfile) {
+    return <ProfilePicker onSelect={selectProfile} />;
+  }
+
+  if (isVaultLocked) {
+    return <VaultUnlock profileName={activeProfile.name} onUnlocked={() => setIsVaultLocked(false)} onSwitchProfile={handleSwitchProfile} />;
+  }
+
   // --- MAIN APP RENDER ---
   return (
     <div className="flex min-h-screen bg-slate-50">
@@ -134,28 +274,83 @@ export default function App() {
            
            <div className="flex items-center gap-3">
               <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
-                <button 
-                  onClick={() => setProvider('deepseek')}
-                  className={`px-3 py-1 text-[10px] font-bold rounded transition-all ${provider === 'deepseek' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                {listProviders().map(option => (
+                  <button 
+                    key={option.id}
+                    onClick={() => handleProviderChange(option.id)}
+                    className={`px-3 py-1 text-[10px] font-bold rounded transition-all uppercase ${provider === option.id ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setIsProviderSettingsOpen(true)}
+                  className="px-2 py-1 text-slate-400 hover:text-slate-600"
+                  title="AI settings"
                 >
-                  DEEPSEEK
+                  <Settings2 className="w-3 h-3" />
                 </button>
-                <button 
-                  onClick={() => setProvider('gemini')}
-                  className={`px-3 py-1 text-[10px] font-bold rounded transition-all ${provider === 'gemini' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                <button
+                  onClick={() => setIsPromptSettingsOpen(true)}
+                  className="px-2 py-1 text-slate-400 hover:text-slate-600"
+                  title="Prompts & mnemonic style"
                 >
-                  GEMINI
+                  <ScrollText className="w-3 h-3" />
                 </button>
               </div>
 
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-50 border border-indigo-100">
                 {provider === 'gemini' ? <Sparkles className="w-4 h-4 text-indigo-600" /> : <Cpu className="w-4 h-4 text-indigo-600" />}
-                <span className="text-xs font-semibold text-indigo-700">{provider === 'gemini' ? 'Gemini AI' : 'DeepSeek AI'} Active</span>
+                <span className="text-xs font-semibold text-indigo-700">{getProvider(provider).label} AI Active</span>
               </div>
+
+              <button
+                onClick={() => setIsSyncSettingsOpen(true)}
+                className="p-2 rounded-full bg-slate-100 border border-slate-200 text-slate-500 hover:bg-slate-200 transition-colors"
+                title="Device sync"
+              >
+                <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin text-indigo-600' : ''}`} />
+              </button>
+
+              <button
+                onClick={() => setIsVaultSettingsOpen(true)}
+                className="p-2 rounded-full bg-slate-100 border border-slate-200 text-slate-500 hover:bg-slate-200 transition-colors"
+                title="Library encryption"
+              >
+                {vaultService.isEnabled() ? <ShieldCheck className="w-4 h-4 text-emerald-600" /> : <ShieldOff className="w-4 h-4" />}
+              </button>
+
+              <button
+                onClick={handleSwitchProfile}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-100 border border-slate-200 text-xs font-semibold text-slate-600 hover:bg-slate-200 transition-colors"
+                title="Switch profile"
+              >
+                <UserCircle className="w-4 h-4" /> {activeProfile.name}
+              </button>
            </div>
         </header>
 
-        <div className="flex-1">
+        {isVaultSettingsOpen && (
+          <VaultSettings onClose={() => setIsVaultSettingsOpen(false)} onLock={handleLockVault} />
+        )}
+
+        {isSyncSettingsOpen && (
+          <SyncSettings onClose={() => setIsSyncSettingsOpen(false)} />
+        )}
+
+        {isProviderSettingsOpen && (
+          <ProviderSettings
+            onClose={() => setIsProviderSettingsOpen(false)}
+            onSaved={() => { setIsProviderSettingsOpen(false); handleProviderChange(CUSTOM_PROVIDER_ID); }}
+          />
+        )}
+
+        {isPromptSettingsOpen && (
+          <PromptSettings onClose={() => setIsPromptSettingsOpen(false)} />
+        )}
+
+        {/* Keyed by profile so every view starts fresh after a switch */}
+        <div className="flex-1" key={activeProfile.id}>
           {renderView()}
         </div>
       </main>
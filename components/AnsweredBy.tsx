@@ -0,0 +1,21 @@
+import React from 'react';
+import { AiAnswerRoute } from '../types';
+import { getProvider, hasProvider } from '../services/aiProviders';
+import { Route } from 'lucide-react';
+
+const labelOf = (id: string) => hasProvider(id) ? getProvider(id).label : id;
+
+// Which provider produced an answer; highlighted when it was a fallback after others failed
+export const AnsweredBy: React.FC<{ route: AiAnswerRoute }> = ({ route }) => {
+  const failed = route.skipped.map(skip => labelOf(skip.provider));
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full ${failed.length ? 'bg-amber-50 text-amber-800 border border-amber-200' : 'bg-slate-100 text-slate-500'}`}
+      title={route.skipped.map(skip => `${labelOf(skip.provider)}: ${skip.reason}`).join('\n') || undefined}
+    >
+      <Route className="w-3 h-3 shrink-0" />
+      Answered by {labelOf(route.provider)}
+      {failed.length > 0 && ` (${failed.join(', ')} failed)`}
+    </span>
+  );
+};
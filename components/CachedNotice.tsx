@@ -0,0 +1,21 @@
+import React from 'react';
+import { History, RefreshCw } from 'lucide-react';
+
+interface CachedNoticeProps {
+  savedAt: string; // When the reused answer was first generated
+  onRegenerate: () => void;
+  disabled?: boolean;
+}
+
+// Shown when an AI answer came from the cache rather than a fresh call
+export const CachedNotice: React.FC<CachedNoticeProps> = ({ savedAt, onRegenerate, disabled }) => (
+  <div className="flex items-center justify-between gap-3 px-4 py-2 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+    <span className="flex items-center gap-2">
+      <History className="w-4 h-4 shrink-0" />
+      Same request as on {new Date(savedAt).toLocaleDateString()}, so that answer was reused at no cost.
+    </span>
+    <button onClick={onRegenerate} disabled={disabled} className="flex items-center gap-1 px-3 py-1 rounded-lg font-medium hover:bg-amber-100 disabled:opacity-50 shrink-0">
+      <RefreshCw className="w-3.5 h-3.5" /> Regenerate
+    </button>
+  </div>
+);
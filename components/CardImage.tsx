@@ -0,0 +1,50 @@
+import React, { useState, useEffect } from 'react';
+import { VocabularyItem } from '../types';
+import { imageStore } from '../services/storage';
+
+type ImageVariant = 'thumbnail' | 'full';
+
+/**
+ * Resolve a card's (or deck cover's) image to a URL. Stored blobs become object URLs that are revoked
+ * on change/unmount; legacy inline data URLs are used as they are.
+ */
+export const useCardImage = (item: Pick<VocabularyItem, 'image' | 'imageId'> | null | undefined, variant: ImageVariant): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  const imageId = item?.imageId;
+  const inline = item?.image;
+
+  useEffect(() => {
+    if (!imageId) {
+      setUrl(inline || null);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    imageStore.get(imageId).then(stored => {
+      if (cancelled || !stored) return;
+      objectUrl = URL.createObjectURL(variant === 'full' ? stored.blob : stored.thumbnail);
+      setUrl(objectUrl);
+    }).catch(e => console.error("Failed to load card image", e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [imageId, inline, variant]);
+
+  return url;
+};
+
+interface CardImageProps {
+  item: VocabularyItem;
+  variant: ImageVariant;
+  className?: string;
+}
+
+export const CardImage: React.FC<CardImageProps> = ({ item, variant, className }) => {
+  const url = useCardImage(item, variant);
+  if (!url) return <div className={`${className || ''} bg-slate-200 animate-pulse`} />;
+  return <img src={url} alt={item.word} className={className} loading="lazy" />;
+};
@@ -1,12 +1,17 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { AppView } from '../types';
-import { Brain, ArrowRight, Zap, Target } from 'lucide-react';
+import { useLibrary } from '../services/libraryStore';
+import { getDueCounts } from '../services/srsService';
+import { Brain, ArrowRight, Zap, Target, Layers } from 'lucide-react';
 
 interface DashboardProps {
   setView: (view: AppView) => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ setView }) => {
+  const { vocabulary, isLoaded } = useLibrary();
+  const dueCounts = useMemo(() => isLoaded ? getDueCounts(vocabulary) : null, [vocabulary, isLoaded]);
+
   return (
     <div className="max-w-5xl mx-auto p-6 md:p-10 space-y-10 pb-24 md:pb-8">
       {/* Hero Section */}
@@ -28,6 +33,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ setView }) => {
         </div>
       </div>
 
+      {/* Review Due Panel */}
+      {dueCounts && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center">
+              <Layers className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-slate-900">
+                {dueCounts.total > 0 ? `${dueCounts.total} cards due for review` : 'No reviews due'}
+              </h3>
+              <p className="text-slate-500 text-sm">
+                {dueCounts.new} new · {dueCounts.review} to revisit
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setView(AppView.REVIEW)}
+            disabled={dueCounts.total === 0}
+            className="bg-indigo-600 text-white px-6 py-2.5 rounded-full font-bold hover:bg-indigo-700 transition-colors inline-flex items-center gap-2 disabled:opacity-50"
+          >
+            Review Now <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Features Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div 
@@ -0,0 +1,96 @@
+import React, { useState, useRef } from 'react';
+import { Deck, DECK_LEVELS } from '../types';
+import { generateId, StorageQuotaError } from '../services/storage';
+import { libraryStore } from '../services/libraryStore';
+import { setDeckCover } from '../services/imageService';
+import { useCardImage } from './CardImage';
+import { X, Loader2, Image as ImageIcon, FolderPlus } from 'lucide-react';
+
+interface DeckEditorProps {
+  deck?: Deck; // Omitted when creating a new deck
+  onClose: () => void;
+}
+
+export const DeckEditor: React.FC<DeckEditorProps> = ({ deck, onClose }) => {
+  const [name, setName] = useState(deck?.name || '');
+  const [description, setDescription] = useState(deck?.description || '');
+  const [targetLevel, setTargetLevel] = useState(deck?.targetLevel || '');
+  const [coverFile, setCoverFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const savedCover = useCardImage(deck?.coverImageId ? { imageId: deck.coverImageId } : null, 'thumbnail');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const handleCoverChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setCoverFile(file);
+    setPreviewUrl(URL.createObjectURL(file));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Please give the deck a name.");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await libraryStore.saveDeck({
+        ...deck,
+        id: deck?.id || generateId(),
+        name: name.trim(),
+        description: description.trim() || undefined,
+        targetLevel: targetLevel || undefined
+      });
+      if (coverFile) await setDeckCover(saved, coverFile);
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+      onClose();
+    } catch (err: any) {
+      setError(err instanceof StorageQuotaError ? err.message : `Could not save the deck: ${err.message}`);
+      setIsSaving(false);
+    }
+  };
+
+  const cover = previewUrl || savedCover;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2"><FolderPlus className="w-5 h-5 text-indigo-600" /> {deck ? 'Edit Deck' : 'New Deck'}</h3>
+          <button onClick={onClose} disabled={isSaving} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <form onSubmit={handleSave} className="p-6 space-y-3">
+          <input type="file" ref={coverInputRef} onChange={handleCoverChange} accept="image/*" className="hidden" />
+          <button type="button" onClick={() => coverInputRef.current?.click()} className="w-full aspect-[3/1] bg-slate-100 rounded-xl overflow-hidden border border-slate-200 flex items-center justify-center text-slate-400 hover:bg-slate-200 transition-colors">
+            {cover ? <img src={cover} alt="" className="w-full h-full object-cover" /> : <span className="flex items-center gap-2 text-sm"><ImageIcon className="w-5 h-5" /> Add a cover (optional)</span>}
+          </button>
+
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Name</label>
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Job Interview Prep" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} placeholder="What is this deck for?" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm resize-none" />
+
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Target Level</label>
+          <select value={targetLevel} onChange={(e) => setTargetLevel(e.target.value)} className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 text-sm">
+            <option value="">Any level</option>
+            {DECK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button type="submit" disabled={isSaving} className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg flex items-center justify-center gap-2 text-sm disabled:opacity-50">
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />} {deck ? 'Save Deck' : 'Create Deck'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
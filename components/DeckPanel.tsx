@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Deck } from '../types';
+import { libraryStore, useLibrary } from '../services/libraryStore';
+import { getDueItems } from '../services/srsService';
+import { useCardImage } from './CardImage';
+import { DeckEditor } from './DeckEditor';
+import { FolderOpen, FolderPlus, Edit3, Trash2, ArrowRight } from 'lucide-react';
+
+interface DeckPanelProps {
+  onOpenDeck: (deckId: string) => void;
+}
+
+const DeckCover: React.FC<{ deck: Deck }> = ({ deck }) => {
+  const url = useCardImage(deck.coverImageId ? { imageId: deck.coverImageId } : null, 'thumbnail');
+  if (url) return <img src={url} alt="" className="w-full h-full object-cover" />;
+  return <div className="w-full h-full flex items-center justify-center bg-gradient-to-r from-indigo-100 to-violet-100"><FolderOpen className="w-8 h-8 text-indigo-300" /></div>;
+};
+
+export const DeckPanel: React.FC<DeckPanelProps> = ({ onOpenDeck }) => {
+  const { vocabulary, decks } = useLibrary();
+  // undefined: editor closed, null: creating a new deck
+  const [editing, setEditing] = useState<Deck | null | undefined>(undefined);
+
+  const handleDelete = async (deck: Deck) => {
+    if (!confirm(`Delete the deck "${deck.name}"? Its cards stay in your library.`)) return;
+    try {
+      await libraryStore.deleteDeck(deck.id);
+    } catch (error: any) {
+      alert(`Could not delete the deck: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {editing !== undefined && <DeckEditor deck={editing || undefined} onClose={() => setEditing(undefined)} />}
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-slate-500">Group cards into decks to study, quiz and export them separately. A card can be in several decks.</p>
+        <button onClick={() => setEditing(null)} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold flex items-center gap-2 shrink-0"><FolderPlus className="w-4 h-4" /> New Deck</button>
+      </div>
+
+      {decks.length === 0 ? (
+        <div className="text-center py-10 text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-300">
+          <p>No decks yet.</p>
+          <p className="text-sm">Create one, then add cards to it from the Vocabulary Cards tab or while generating words.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {decks.map(deck => {
+            const cards = vocabulary.filter(item => item.deckIds?.includes(deck.id));
+            const due = getDueItems(cards).length;
+            return (
+              <div key={deck.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+                <div className="aspect-[3/1] bg-slate-100"><DeckCover deck={deck} /></div>
+                <div className="p-4 space-y-2 flex-1 flex flex-col">
+                  <div className="flex justify-between items-start gap-2">
+                    <h3 className="font-bold text-slate-900">{deck.name}</h3>
+                    {deck.targetLevel && <span className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full font-bold uppercase shrink-0">{deck.targetLevel}</span>}
+                  </div>
+                  {deck.description && <p className="text-sm text-slate-500">{deck.description}</p>}
+                  <p className="text-xs text-slate-400 flex-1">{cards.length} card{cards.length === 1 ? '' : 's'}{due > 0 ? ` · ${due} due` : ''}</p>
+                  <div className="flex items-center gap-1 pt-2">
+                    <button onClick={() => onOpenDeck(deck.id)} className="flex-1 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center justify-center gap-1">Open <ArrowRight className="w-3 h-3" /></button>
+                    <button onClick={() => setEditing(deck)} className="p-1.5 text-slate-400 hover:text-indigo-600" title="Edit deck"><Edit3 className="w-4 h-4" /></button>
+                    <button onClick={() => handleDelete(deck)} className="p-1.5 text-slate-400 hover:text-red-600" title="Delete deck"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
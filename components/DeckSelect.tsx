@@ -0,0 +1,30 @@
+import React from 'react';
+import { Deck } from '../types';
+import { FolderOpen } from 'lucide-react';
+
+// Value used by filters for cards that are in no deck
+export const NO_DECK = '__none__';
+
+interface DeckSelectProps {
+  decks: Deck[];
+  value: string; // Deck id, '' for "all" / "none chosen", or NO_DECK
+  onChange: (deckId: string) => void;
+  emptyLabel: string;
+  includeNoDeck?: boolean;
+  className?: string;
+}
+
+export const DeckSelect: React.FC<DeckSelectProps> = ({ decks, value, onChange, emptyLabel, includeNoDeck, className }) => {
+  // A deck deleted elsewhere (or from another profile's session) falls back to the empty choice
+  const current = value === NO_DECK || decks.some(d => d.id === value) ? value : '';
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`}>
+      <FolderOpen className="w-4 h-4 text-slate-400 shrink-0" />
+      <select value={current} onChange={(e) => onChange(e.target.value)} className="p-2 border border-slate-300 rounded-lg text-sm bg-white flex-1">
+        <option value="">{emptyLabel}</option>
+        {decks.map(deck => <option key={deck.id} value={deck.id}>{deck.name}</option>)}
+        {includeNoDeck && <option value={NO_DECK}>Not in any deck</option>}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { VocabularyItem } from '../types';
+import { useLibrary, libraryStore } from '../services/libraryStore';
+import { findDuplicateGroups, defaultPicks, buildMergedCard, MERGE_FIELDS, MergeField, MergePicks } from '../services/duplicateService';
+import { hasImage } from '../services/imageService';
+import { CardImage } from './CardImage';
+import { X, Loader2, Copy, Check, Image as ImageIcon, GitMerge } from 'lucide-react';
+
+interface DuplicateFinderProps {
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  word: 'Word',
+  phonetic: 'Phonetic',
+  definition: 'Definition',
+  chineseTranslation: 'Translation',
+  exampleSentence: 'Example',
+  mnemonic: 'Memory Hook',
+  context: 'Context',
+  image: 'Image'
+};
+
+// The group's card ids joined, so picks survive the library reloading after every merge
+const groupKey = (group: VocabularyItem[]) => group.map(card => card.id).join('|');
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ onClose }) => {
+  const { vocabulary } = useLibrary();
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [picksByGroup, setPicksByGroup] = useState<Record<string, MergePicks>>({});
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedCount, setMergedCount] = useState(0);
+
+  const groups = useMemo(() => findDuplicateGroups(vocabulary).filter(group => !skipped.has(groupKey(group))), [vocabulary, skipped]);
+  const group = groups[0];
+  const key = group ? groupKey(group) : '';
+  const picks = group ? picksByGroup[key] || defaultPicks(group) : null;
+
+  const pick = (field: MergeField, cardId: string) => {
+    if (!picks) return;
+    setPicksByGroup({ ...picksByGroup, [key]: { ...picks, [field]: cardId } });
+  };
+
+  const handleMerge = async () => {
+    if (!group || !picks) return;
+    setIsMerging(true);
+    try {
+      const merged = buildMergedCard(group, picks);
+      await libraryStore.mergeWords(merged, group.map(card => card.id!).filter(id => id !== merged.id));
+      setMergedCount(count => count + 1);
+    } catch (error: any) {
+      alert(`Could not merge the cards: ${error.message}`);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const cellClass = (field: MergeField, card: VocabularyItem) =>
+    `p-3 rounded-lg border text-sm text-left transition-colors ${picks?.[field] === card.id ? 'bg-indigo-50 border-indigo-400 text-slate-900' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-5xl max-h-[90vh] bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2"><Copy className="w-5 h-5 text-indigo-600" /> Find Duplicates</h3>
+            <p className="text-sm text-slate-500 mt-1">
+              Cards for the same word in another case or form ("Negotiate", "negotiating").
+              {group && ` ${groups.length} group${groups.length === 1 ? '' : 's'} left.`}
+              {mergedCount > 0 && ` ${mergedCount} merged so far.`}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={isMerging} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        {!group || !picks ? (
+          <div className="p-10 text-center text-slate-500 space-y-4">
+            <Check className="w-10 h-10 text-green-500 mx-auto" />
+            <p>No {mergedCount > 0 || skipped.size > 0 ? 'more ' : ''}duplicates found.</p>
+            <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold">Done</button>
+          </div>
+        ) : (
+          <>
+            <div className="p-6 overflow-auto flex-1">
+              <p className="text-xs text-slate-500 mb-4">Click the value to keep for each field. Tags, decks, other images and where each card came from are combined; the removed cards go to the Trash.</p>
+              <div className="grid gap-2" style={{ gridTemplateColumns: `8rem repeat(${group.length}, minmax(12rem, 1fr))` }}>
+                <div />
+                {group.map(card => (
+                  <div key={card.id} className="text-xs text-slate-400 font-bold px-1">
+                    Added {card.createdAt ? new Date(card.createdAt).toLocaleDateString() : 'earlier'}
+                    {card.review?.lastReviewed && ' · reviewed'}
+                  </div>
+                ))}
+
+                {MERGE_FIELDS.map(field => (
+                  <React.Fragment key={field}>
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wide pt-3">{FIELD_LABELS[field]}</div>
+                    {group.map(card => (
+                      <button key={card.id} onClick={() => pick(field, card.id!)} className={cellClass(field, card)}>
+                        {card[field] || <span className="italic text-slate-300">Empty</span>}
+                      </button>
+                    ))}
+                  </React.Fragment>
+                ))}
+
+                <div className="text-xs font-bold text-slate-500 uppercase tracking-wide pt-3">{FIELD_LABELS.image}</div>
+                {group.map(card => (
+                  <button key={card.id} onClick={() => pick('image', card.id!)} className={cellClass('image', card)}>
+                    {hasImage(card)
+                      ? <CardImage item={card} variant="thumbnail" className="w-full h-24 object-cover rounded" />
+                      : <span className="flex items-center gap-1 italic text-slate-300"><ImageIcon className="w-4 h-4" /> No image</span>}
+                    {(card.altImageIds?.length || 0) > 0 && <span className="block text-[10px] text-slate-400 mt-1">+{card.altImageIds!.length} more kept</span>}
+                  </button>
+                ))}
+
+                <div className="text-xs font-bold text-slate-500 uppercase tracking-wide pt-3">Tags & Decks</div>
+                {group.map(card => (
+                  <div key={card.id} className="p-3 text-xs text-slate-500">
+                    {[...(card.tags || []), ...(card.deckIds?.length ? [`${card.deckIds.length} deck${card.deckIds.length === 1 ? '' : 's'}`] : [])].join(', ') || '—'}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+              <button onClick={() => setSkipped(new Set(skipped).add(key))} disabled={isMerging} className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-bold">Skip</button>
+              <button onClick={handleMerge} disabled={isMerging} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                {isMerging ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />} Merge {group.length} Cards
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { AiProvider, VocabularyItem } from '../types';
+import { generateVocabularyFromList, modelFor } from '../services/geminiService';
+import { AiAbortedError, AiAuthError, useAiCall } from '../services/aiRequest';
+import { providerFor } from '../services/aiRouting';
+import { parseSheet, looksLikeHeader, guessMapping, rowsToItems, uniqueByWord, getMissingFields, fillMissingFields, IMPORT_FIELDS, Delimiter, ImportField, ParsedSheet } from '../services/importService';
+import { WordMatcher } from '../services/lemmatizer';
+import { StopButton } from './StopButton';
+import { X, Upload, Loader2, Sparkles, FileSpreadsheet } from 'lucide-react';
+
+interface ImportDialogProps {
+  aiProvider: AiProvider;
+  existingWords: WordMatcher; // Matches other cases and spacings of saved words too
+  onCancel: () => void;
+  onImport: (items: VocabularyItem[]) => Promise<void>;
+}
+
+const DELIMITERS: { value: Delimiter | 'auto', label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab (Quizlet)' },
+];
+
+// Words are sent to the AI in small batches so one bad response doesn't lose the whole import
+const AI_BATCH_SIZE = 10;
+const PREVIEW_ROWS = 5;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ aiProvider, existingWords, onCancel, onImport }) => {
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [delimiterChoice, setDelimiterChoice] = useState<Delimiter | 'auto'>('auto');
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [fillWithAi, setFillWithAi] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isFillingGaps, setIsFillingGaps] = useState(false);
+  const aiCall = useAiCall();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sheet: ParsedSheet | null = useMemo(() => {
+    if (!rawText.trim()) return null;
+    return parseSheet(rawText, delimiterChoice === 'auto' ? undefined : delimiterChoice);
+  }, [rawText, delimiterChoice]);
+
+  // Re-guess the header and mapping whenever a new sheet is loaded or the delimiter changes
+  const loadSheet = (text: string, delimiter: Delimiter | 'auto') => {
+    setRawText(text);
+    setDelimiterChoice(delimiter);
+    const parsed = text.trim() ? parseSheet(text, delimiter === 'auto' ? undefined : delimiter) : null;
+    if (parsed && parsed.rows.length > 0) {
+      const header = looksLikeHeader(parsed.rows[0]);
+      setHasHeader(header);
+      setMapping(guessMapping(parsed.rows[0], header));
+    } else {
+      setMapping([]);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setFileName(file.name);
+      loadSheet(e.target?.result as string, 'auto');
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const columnCount = sheet ? Math.max(0, ...sheet.rows.map(r => r.length)) : 0;
+  const dataRows = useMemo(() => sheet ? (hasHeader ? sheet.rows.slice(1) : sheet.rows) : [], [sheet, hasHeader]);
+  const parsedItems = useMemo(() => rowsToItems(dataRows, mapping), [dataRows, mapping]);
+  const uniqueItems = useMemo(() => uniqueByWord(parsedItems), [parsedItems]);
+  const newItems = uniqueItems.filter(item => !existingWords.has(item.word));
+  const itemsWithGaps = newItems.filter(item => getMissingFields(item).length > 0);
+  const hasWordColumn = mapping.includes('word');
+
+  const handleImport = async () => {
+    if (newItems.length === 0) return;
+    setIsImporting(true);
+    try {
+      let finalItems = newItems;
+      // Batches may be answered by different providers when one fails over
+      const answeredBy = new Map<string, AiProvider>();
+      if (fillWithAi && itemsWithGaps.length > 0) {
+        const words = itemsWithGaps.map(i => i.word);
+        const generated: VocabularyItem[] = [];
+        // Stop ends the remaining batches; rows filled so far are still imported
+        const callOptions = aiCall.start();
+        setIsFillingGaps(true);
+        for (let i = 0; i < words.length; i += AI_BATCH_SIZE) {
+          setProgress(`Filling gaps with AI... ${Math.min(i + AI_BATCH_SIZE, words.length)}/${words.length}`);
+          const batch = words.slice(i, i + AI_BATCH_SIZE);
+          try {
+            generated.push(...await generateVocabularyFromList(batch, aiProvider, {
+              ...callOptions,
+              onRoute: route => batch.forEach(word => answeredBy.set(word, route.provider))
+            }));
+          } catch (e) {
+            if (e instanceof AiAbortedError) break;
+            console.error("AI gap filling failed for batch", e);
+            // Every later batch would be rejected the same way
+            if (e instanceof AiAuthError) break;
+          }
+        }
+        setIsFillingGaps(false);
+        finalItems = fillMissingFields(newItems, generated);
+      }
+      const providerOf = (word: string) => {
+        const provider = answeredBy.get(word) || providerFor('vocab', aiProvider);
+        return { provider, model: modelFor(provider, 'vocabulary') };
+      };
+      // fillMissingFields returns a new object only for rows the AI filled in
+      const importedAt = new Date().toISOString();
+      finalItems = finalItems.map((item, index) => ({
+        ...item,
+        source: {
+          module: 'import',
+          context: fileName || undefined,
+          ...(item !== newItems[index] ? providerOf(newItems[index].word) : {}),
+          createdAt: importedAt
+        }
+      }));
+      setProgress('Saving...');
+      await onImport(finalItems);
+    } catch (e: any) {
+      alert(`Import failed: ${e.message}`);
+    } finally {
+      setIsImporting(false);
+      setIsFillingGaps(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" />
+      <div className="w-full max-w-4xl max-h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Import Spreadsheet</h3>
+            <p className="text-sm text-slate-500">CSV, TSV or Quizlet export. Map each column to a card field.</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex flex-col md:flex-row gap-3">
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-bold border border-indigo-200 flex items-center gap-2">
+              <Upload className="w-4 h-4" /> Choose File
+            </button>
+            {fileName && <span className="text-sm text-slate-500 flex items-center gap-2"><FileSpreadsheet className="w-4 h-4" /> {fileName}</span>}
+            <div className="flex-1" />
+            <select value={delimiterChoice} onChange={(e) => loadSheet(rawText, e.target.value as Delimiter | 'auto')} className="p-2 text-sm rounded-lg border border-slate-300 bg-slate-50">
+              {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-indigo-600" />
+              First row is a header
+            </label>
+          </div>
+
+          {!fileName && (
+            <textarea
+              value={rawText}
+              onChange={(e) => loadSheet(e.target.value, delimiterChoice)}
+              placeholder={"Or paste rows here, e.g.\nnegotiate\tto discuss to reach an agreement\nresilient\table to recover quickly"}
+              className="w-full p-4 rounded-xl border border-slate-300 bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none resize-none h-32 font-mono text-sm"
+            />
+          )}
+
+          {sheet && columnCount > 0 && (
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {Array.from({ length: columnCount }).map((_, col) => (
+                      <th key={col} className="p-2 text-left">
+                        <select
+                          value={mapping[col] || 'ignore'}
+                          onChange={(e) => {
+                            const next = [...mapping];
+                            while (next.length < columnCount) next.push('ignore');
+                            next[col] = e.target.value as ImportField;
+                            setMapping(next);
+                          }}
+                          className={`w-full p-1.5 text-xs rounded border ${mapping[col] && mapping[col] !== 'ignore' ? 'border-indigo-300 bg-indigo-50 text-indigo-700 font-bold' : 'border-slate-300 bg-white text-slate-500'}`}
+                        >
+                          {IMPORT_FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                        </select>
+                        {hasHeader && <p className="text-[10px] text-slate-400 mt-1 truncate">{sheet.rows[0][col]}</p>}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t border-slate-100">
+                      {Array.from({ length: columnCount }).map((_, col) => (
+                        <td key={col} className={`p-2 max-w-[200px] truncate ${mapping[col] === 'ignore' ? 'text-slate-300' : 'text-slate-700'}`}>{row[col]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {sheet && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 text-sm text-slate-600">
+                <p><span className="font-bold text-slate-900">{parsedItems.length}</span> rows with a word</p>
+                <p><span className="font-bold text-emerald-600">{newItems.length}</span> new · {uniqueItems.length - newItems.length} already in library (skipped)</p>
+                {uniqueItems.length < parsedItems.length && (
+                  <p>{parsedItems.length - uniqueItems.length} repeat a word earlier in the sheet (skipped)</p>
+                )}
+                <p><span className="font-bold text-amber-600">{itemsWithGaps.length}</span> with missing fields</p>
+              </div>
+              <label className={`p-4 rounded-xl border flex items-start gap-3 cursor-pointer ${fillWithAi ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200'} ${itemsWithGaps.length === 0 ? 'opacity-50' : ''}`}>
+                <input type="checkbox" checked={fillWithAi} disabled={itemsWithGaps.length === 0} onChange={(e) => setFillWithAi(e.target.checked)} className="mt-1 accent-indigo-600" />
+                <div>
+                  <p className="font-bold text-slate-800 text-sm flex items-center gap-1"><Sparkles className="w-4 h-4 text-indigo-500" /> Fill gaps with AI ({providerFor('vocab', aiProvider)})</p>
+                  <p className="text-xs text-slate-500">Only blank fields are generated. Values from your sheet are kept as they are.</p>
+                </div>
+              </label>
+            </div>
+          )}
+
+          {sheet && !hasWordColumn && (
+            <p className="text-sm text-red-600">Map one column to "Word" to import.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-between items-center gap-2 bg-slate-50">
+          <span className="text-xs text-slate-500">{progress}</span>
+          <div className="flex gap-2">
+            {isFillingGaps && <StopButton onStop={aiCall.stop} />}
+            <button onClick={onCancel} disabled={isImporting} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-white text-sm font-medium">Cancel</button>
+            <button
+              onClick={handleImport}
+              disabled={isImporting || newItems.length === 0}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {newItems.length} Cards
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
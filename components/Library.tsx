@@ -1,36 +1,94 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { VocabularyItem, WritingEntry } from '../types';
-import { storage } from '../services/storage';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { VocabularyItem, AiProvider, LibrarySnapshot, CardSourceModule } from '../types';
+import { storage, vocabularyStore, writingStore, imageStore, trashStore, snapshotStore, generateId, StorageQuotaError, cardImageIds } from '../services/storage';
+import { libraryStore, useLibrary } from '../services/libraryStore';
 import { playTextToSpeech } from '../services/audioService';
-import { Trash2, Eye, Search, Volume2, Download, ChevronDown, ChevronUp, Upload, FileJson, Edit3, X, Check, Image as ImageIcon, Maximize2, Loader2 } from 'lucide-react';
+import { createWordMatcher } from '../services/lemmatizer';
+import { buildSearchIndex } from '../services/searchService';
+import { createBackup, parseBackup, planRestore, applyRestorePlan, RestorePlan, ConflictResolution, BackupFormatError, isEncryptedBackup, encryptBackup, decryptBackup } from '../services/backupService';
+import { vaultService } from '../services/vaultService';
+import { WrongPassphraseError } from '../services/cryptoService';
+import { RestorePreview, RestoreMode } from './RestorePreview';
+import { exportApkg, exportAnkiTsv } from '../services/ankiExport';
+import { ImportDialog } from './ImportDialog';
+import { CardImage } from './CardImage';
+import { UndoToast } from './UndoToast';
+import { TrashPanel } from './TrashPanel';
+import { StoragePanel } from './StoragePanel';
+import { DeckPanel } from './DeckPanel';
+import { DeckSelect, NO_DECK } from './DeckSelect';
+import { DuplicateFinder } from './DuplicateFinder';
+import { attachImage, hasImage, migrateInlineImages, prepareItemsForBackup } from '../services/imageService';
+import { Trash2, Eye, Search, Volume2, Download, ChevronDown, ChevronUp, Upload, FileJson, Edit3, X, Check, Image as ImageIcon, Maximize2, Loader2, Layers, FileSpreadsheet, HardDrive, FolderOpen, Copy, History, Sparkles, ArrowRight } from 'lucide-react';
+
+type LibraryTab = 'vocabulary' | 'writing' | 'decks' | 'trash' | 'storage';
+
+// The last reversible action, offered in the undo toast
+interface UndoAction {
+  message: string;
+  undo: () => Promise<void>;
+}
+
+const SOURCE_LABELS: Record<CardSourceModule, string> = {
+  topic: 'Topic generation',
+  list: 'Word list',
+  import: 'Spreadsheet import',
+  writing: 'Writing Lab analysis',
+  quiz: 'Quiz feedback'
+};
 
-type LibraryTab = 'vocabulary' | 'writing';
+interface LibraryProps {
+  aiProvider: AiProvider;
+  profileName?: string;
+}
 
-export const Library: React.FC = () => {
+export const Library: React.FC<LibraryProps> = ({ aiProvider, profileName }) => {
   const [activeTab, setActiveTab] = useState<LibraryTab>('vocabulary');
   
+  // Library State: shared with the other views and kept current across tabs
+  const { vocabulary: items, writing: writingItems, decks, isLoaded } = useLibrary();
+
+  // Deck filter: '' shows every card; with a deck chosen, backups and exports cover only that deck
+  const [deckFilter, setDeckFilter] = useState('');
+  const activeDeck = decks.find(d => d.id === deckFilter);
+  const deckItems = useMemo(() => deckFilter === NO_DECK
+    ? items.filter(item => !item.deckIds?.some(id => decks.some(d => d.id === id)))
+    : activeDeck ? items.filter(item => item.deckIds?.includes(activeDeck.id)) : items, [items, decks, deckFilter, activeDeck]);
+
   // Vocabulary State
-  const [items, setItems] = useState<VocabularyItem[]>([]);
-  const [revealedCards, setRevealedCards] = useState<Set<number>>(new Set());
+  const [revealedCards, setRevealedCards] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoadingData, setIsLoadingData] = useState(true);
 
   // Editing State
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [tempTags, setTempTags] = useState('');
+  const [tempDeckIds, setTempDeckIds] = useState<string[]>([]);
 
   // Focus/Zoom Mode State
-  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
 
   // Writing Log State
-  const [writingItems, setWritingItems] = useState<WritingEntry[]>([]);
   const [expandedWriting, setExpandedWriting] = useState<Set<string>>(new Set());
 
+  const [isExportingApkg, setIsExportingApkg] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDuplicateFinderOpen, setIsDuplicateFinderOpen] = useState(false);
+  const [includeImagesInBackup, setIncludeImagesInBackup] = useState(true);
+  // Backups of an encrypted library are encrypted too unless the user opts out
+  const [encryptBackupFile, setEncryptBackupFile] = useState(true);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+
+  // Restore State (a parsed backup waiting for the user to confirm)
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+
   // Refs for File Inputs
   const fileInputRef = useRef<HTMLInputElement>(null); // For JSON restore
   const imageInputRef = useRef<HTMLInputElement>(null); // For Image upload
-  const uploadTargetIndex = useRef<number | null>(null);
+  const uploadTargetId = useRef<string | null>(null);
 
   useEffect(() => {
     loadData();
@@ -39,11 +97,9 @@ export const Library: React.FC = () => {
   const loadData = async () => {
     setIsLoadingData(true);
     try {
-      const savedVocab = await storage.get<VocabularyItem[]>('memoralink_library');
-      if (savedVocab) setItems(savedVocab);
-      
-      const savedWriting = await storage.get<WritingEntry[]>('memoralink_writing_library');
-      if (savedWriting) setWritingItems(savedWriting);
+      // Convert any inline images left from older versions before listing
+      await migrateInlineImages();
+      await trashStore.purgeExpired();
     } catch(e) {
       console.error("Failed to load library", e);
     } finally {
@@ -51,13 +107,26 @@ export const Library: React.FC = () => {
     }
   };
 
-  const handleBackupData = () => {
-    const backupData = { version: 1, date: new Date().toISOString(), vocabulary: items, writingLogs: writingItems };
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(backupData, null, 2));
+  const handleBackupData = async () => {
+    // A deck backup holds just that deck and its cards
+    const vocabulary = await prepareItemsForBackup(activeDeck ? deckItems : items, includeImagesInBackup);
+    const backupData = activeDeck
+      ? createBackup(vocabulary, [], profileName, [activeDeck])
+      : createBackup(vocabulary, writingItems, profileName, decks);
+    const encrypt = vaultService.isEnabled() && encryptBackupFile;
+    let contents: object = backupData;
+    if (encrypt) {
+      const { key, kdf } = vaultService.getBackupKey();
+      contents = await encryptBackup(backupData, key, kdf);
+    }
+    // Blob URL instead of a data URL: backups with images can exceed data URL length limits
+    const url = URL.createObjectURL(new Blob([JSON.stringify(contents, null, 2)], { type: 'application/json' }));
     const a = document.createElement('a');
-    a.href = dataStr;
-    a.download = `memoralink_backup.json`;
+    a.href = url;
+    const suffix = [profileName, activeDeck?.name].filter(Boolean).map(name => `_${name!.replace(/[^\p{L}\p{N}_-]+/gu, '_')}`).join('');
+    a.download = `memoralink_backup${suffix}${includeImagesInBackup ? '' : '_no_images'}${encrypt ? '.encrypted' : ''}.json`;
     a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   };
 
   const handleRestoreClick = () => fileInputRef.current?.click();
@@ -68,24 +137,20 @@ export const Library: React.FC = () => {
     const reader = new FileReader();
     reader.onload = async (e) => {
       try {
-        setIsLoadingData(true);
-        const data = JSON.parse(e.target?.result as string);
-        
-        if (data.vocabulary) {
-          await storage.set('memoralink_library', data.vocabulary);
-          setItems(data.vocabulary);
-        }
-        if (data.writingLogs) {
-          await storage.set('memoralink_writing_library', data.writingLogs);
-          setWritingItems(data.writingLogs);
+        const raw = JSON.parse(e.target?.result as string);
+        let backup;
+        if (isEncryptedBackup(raw)) {
+          const passphrase = prompt("This backup is encrypted. Enter the passphrase it was made with:");
+          if (!passphrase) return;
+          backup = await decryptBackup(raw, passphrase);
+        } else {
+          backup = parseBackup(raw);
         }
-        
-        alert(`Restore successful! Loaded ${data.vocabulary?.length || 0} words.`);
+        setRestorePlan(planRestore(backup, items, writingItems, decks));
       } catch (error) { 
         console.error(error);
-        alert("Invalid file or restore failed."); 
+        alert(error instanceof BackupFormatError || error instanceof WrongPassphraseError ? error.message : "Invalid file. Please choose a MemoraLink JSON backup."); 
       } finally {
-        setIsLoadingData(false);
         // Clear input
         if (fileInputRef.current) fileInputRef.current.value = '';
       }
@@ -93,80 +158,209 @@ export const Library: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleRestoreSnapshot = (snapshot: LibrarySnapshot) => {
+    setRestorePlan(planRestore(createBackup(snapshot.vocabulary, snapshot.writingLogs), items, writingItems, decks));
+  };
+
+  const handleConfirmRestore = async (mode: RestoreMode, vocabResolutions: ConflictResolution[], writingResolutions: ConflictResolution[]) => {
+    if (!restorePlan) return;
+    const plan = restorePlan;
+    setRestorePlan(null);
+    setIsLoadingData(true);
+    let isSnapshotSaved = false;
+    try {
+      if (mode === 'replace-all') {
+        // The current library is kept (images inlined) first, so a failed write below can be undone from the Trash tab
+        await snapshotStore.add({
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+          reason: 'Before "Replace Entire Library"',
+          vocabulary: await prepareItemsForBackup(items, true),
+          writingLogs: writingItems
+        });
+        isSnapshotSaved = true;
+        await vocabularyStore.clear();
+        await writingStore.clear();
+        await libraryStore.putWords(plan.backup.vocabulary, { preserveTimestamps: true });
+        await libraryStore.putWritingEntries(plan.backup.writingLogs, { preserveTimestamps: true });
+        // Decks are not wiped, but the backup's version of each of its decks wins
+        await libraryStore.putDecks((plan.backup.decks || []).map(deck => ({ ...deck, coverImageId: decks.find(d => d.id === deck.id)?.coverImageId })), { preserveTimestamps: true });
+        // Only once the backup is written: the replaced cards' images, unless a restored card still uses them.
+        // Trashed cards keep theirs.
+        const stillUsed = new Set(plan.backup.vocabulary.flatMap(cardImageIds));
+        for (const item of items) {
+          for (const imageId of cardImageIds(item)) {
+            if (!stillUsed.has(imageId)) await imageStore.delete(imageId);
+          }
+        }
+      } else {
+        await libraryStore.putDecks(plan.newDecks, { preserveTimestamps: true });
+        const changes = applyRestorePlan(plan, vocabResolutions, writingResolutions);
+        await libraryStore.putWords(changes.vocabulary, { preserveTimestamps: true });
+        await libraryStore.putWritingEntries(changes.writingLogs, { preserveTimestamps: true });
+      }
+      await migrateInlineImages();
+
+      const added = plan.vocabulary.added.length;
+      const updated = plan.vocabulary.changed.length;
+      alert(mode === 'replace-all'
+        ? `Restore successful! Loaded ${plan.backup.vocabulary.length} words.`
+        : `Restore successful! Added ${added} new words and reconciled ${updated} changed words.`);
+    } catch (error) {
+      console.error(error);
+      const undoHint = isSnapshotSaved ? " Your previous library is saved as a snapshot in the Trash tab." : "";
+      alert(`${error instanceof StorageQuotaError ? error.message : "Restore failed. Your library was not fully updated."}${undoHint}`);
+    } finally {
+      setIsLoadingData(false);
+    }
+  };
+
   // --- Image Upload Logic ---
-  const triggerImageUpload = (index: number) => {
-    uploadTargetIndex.current = index;
+  const triggerImageUpload = (id: string) => {
+    uploadTargetId.current = id;
     imageInputRef.current?.click();
   };
 
-  const handleImageFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || uploadTargetIndex.current === null) return;
+    const target = items.find(i => i.id === uploadTargetId.current);
+    if (!file || !target) return;
 
-    // Warning for very large images, though IDB can handle them better than LocalStorage
-    if (file.size > 5000000) { // 5MB warning
-       if (!confirm("This image is quite large (>5MB). It may slow down loading. Continue?")) return;
-    }
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64String = e.target?.result as string;
-      const newItems = [...items];
-      newItems[uploadTargetIndex.current!] = {
-        ...newItems[uploadTargetIndex.current!],
-        image: base64String
-      };
-      setItems(newItems);
-      await storage.set('memoralink_library', newItems);
-      
+    // Images are resized and re-encoded on upload, so large photos no longer need a warning
+    setIsUploadingImage(true);
+    try {
+      await attachImage(target, file);
+    } catch (error) {
+      console.error("Image upload failed", error);
+      alert(error instanceof StorageQuotaError ? error.message : "Could not read this image. Please try a JPEG, PNG or WebP file.");
+    } finally {
+      setIsUploadingImage(false);
       // Reset input
       if (imageInputRef.current) imageInputRef.current.value = '';
-      uploadTargetIndex.current = null;
-    };
-    reader.readAsDataURL(file);
+      uploadTargetId.current = null;
+    }
+  };
+
+  // Swap a merged-in image with the card's main one; neither is deleted
+  const handleUseAltImage = async (item: VocabularyItem, imageId: string) => {
+    try {
+      await libraryStore.updateWord(item.id!, latest => {
+        const altImageIds = (latest.altImageIds || []).filter(id => id !== imageId);
+        if (latest.imageId) altImageIds.unshift(latest.imageId);
+        return { ...latest, imageId, image: undefined, altImageIds: altImageIds.length ? altImageIds : undefined };
+      });
+    } catch (error: any) {
+      alert(`Could not change the image: ${error.message}`);
+    }
   };
 
   // --- Vocabulary Logic ---
-  const handleDeleteVocab = async (index: number) => {
-    if (confirm('Remove this word?')) {
-      const newItems = items.filter((_, i) => i !== index);
-      setItems(newItems);
-      await storage.set('memoralink_library', newItems);
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+
+  const handleUndo = async () => {
+    const action = undoAction;
+    setUndoAction(null);
+    if (!action) return;
+    try {
+      await action.undo();
+    } catch (error) {
+      console.error("Undo failed", error);
+      alert("Undo failed. The item may still be in the Trash tab.");
+    }
+  };
+
+  // Deleted words go to the trash (with their image) and can be brought back from the toast or the Trash tab
+  const handleDeleteVocab = async (id: string) => {
+    const target = items.find(i => i.id === id);
+    try {
+      await libraryStore.deleteWord(id);
+    } catch (error: any) {
+      // Quota, locked-vault and lock errors carry a message meant for the user
+      alert(`Could not move "${target?.word}" to the Trash: ${error.message}`);
+      return;
     }
+    setUndoAction({
+      message: `Moved "${target?.word}" to Trash`,
+      undo: async () => {
+        await libraryStore.restoreFromTrash(id);
+      }
+    });
+  };
+
+  const handleDeleteWriting = async (id: string) => {
+    try {
+      await libraryStore.deleteWritingEntry(id);
+    } catch (error: any) {
+      alert(`Could not move the writing log to the Trash: ${error.message}`);
+      return;
+    }
+    setUndoAction({
+      message: 'Moved writing log to Trash',
+      undo: async () => {
+        await libraryStore.restoreFromTrash(id);
+      }
+    });
   };
   
   const handleClearAll = async () => {
-    if (confirm("⚠️ WARNING: Are you sure you want to delete ALL data from your library? This action cannot be undone.")) {
-      setItems([]);
-      setWritingItems([]);
-      setRevealedCards(new Set());
-      await storage.clearAll();
+    if (confirm("⚠️ WARNING: Are you sure you want to delete ALL words and writing logs from your library? A snapshot will be kept in the Trash tab so you can restore it.")) {
+      setIsLoadingData(true);
+      try {
+        await snapshotStore.add({
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+          reason: 'Before "Clear All"',
+          vocabulary: await prepareItemsForBackup(items, true),
+          writingLogs: writingItems
+        });
+        await storage.clearAll();
+        setRevealedCards(new Set());
+      } catch (error) {
+        console.error("Clear all failed", error);
+        alert("Could not save a snapshot, so nothing was deleted.");
+      } finally {
+        setIsLoadingData(false);
+      }
     }
   };
 
   // Edit Tags
-  const startEditing = (index: number, tags: string[] = []) => {
-    setEditingIndex(index);
-    setTempTags(tags.join(', '));
+  const startEditing = (item: VocabularyItem) => {
+    setEditingId(item.id!);
+    setTempTags((item.tags || []).join(', '));
+    setTempDeckIds(item.deckIds || []);
   };
 
-  const saveTags = async (index: number) => {
-    const newItems = [...items];
+  const toggleTempDeck = (deckId: string) => {
+    setTempDeckIds(prev => prev.includes(deckId) ? prev.filter(id => id !== deckId) : [...prev, deckId]);
+  };
+
+  const saveTags = async (item: VocabularyItem) => {
     const tagsArray = tempTags.split(',').map(t => t.trim()).filter(t => t.length > 0);
-    newItems[index].tags = tagsArray;
-    setItems(newItems);
-    await storage.set('memoralink_library', newItems);
-    setEditingIndex(null);
+    try {
+      // Only tags and decks change, so a review graded in another tab meanwhile is kept
+      await libraryStore.updateWord(item.id!, latest => ({ ...latest, tags: tagsArray, deckIds: tempDeckIds }));
+    } catch (error: any) {
+      alert(`Could not save tags: ${error.message}`);
+      return;
+    }
+    setEditingId(null);
+    setUndoAction({
+      message: `Updated tags and decks for "${item.word}"`,
+      undo: async () => {
+        await libraryStore.updateWord(item.id!, latest => ({ ...latest, tags: item.tags, deckIds: item.deckIds }));
+      }
+    });
   };
 
   const handleExportCSV = () => {
-    if (items.length === 0) return;
+    if (deckItems.length === 0) return;
     
     // Add BOM (\uFEFF) so Excel opens it with correct UTF-8 encoding
     // STRICTLY Text only columns: Word, Definition, Chinese Note, Mnemonic, Example
     let csvContent = "\uFEFFWord;Definition;Chinese註解;Mnemonic;Example\n";
     
-    items.forEach(item => {
+    deckItems.forEach(item => {
       // Helper to escape quotes within the text
       const clean = (s: string) => `"${(s || '').replace(/"/g, '""')}"`;
       
@@ -176,16 +370,33 @@ export const Library: React.FC = () => {
 
     const link = document.createElement("a");
     link.href = encodeURI("data:text/csv;charset=utf-8," + csvContent);
-    link.download = "memoralink_vocab_export.csv";
+    link.download = `memoralink_vocab_export${activeDeck ? `_${activeDeck.name.replace(/[^\p{L}\p{N}_-]+/gu, '_')}` : ''}.csv`;
     link.click();
   };
 
-  const filteredItems = items.filter(item => 
-    item.word.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.definition.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.chineseTranslation.includes(searchTerm) ||
-    (item.tags && item.tags.some(t => t.toLowerCase().includes(searchTerm.toLowerCase())))
-  );
+  const handleImportItems = async (imported: VocabularyItem[]) => {
+    // Words imported while a deck is open go into that deck
+    await libraryStore.putWords(activeDeck ? imported.map(item => ({ ...item, deckIds: [activeDeck.id] })) : imported);
+    setIsImportOpen(false);
+    alert(`Imported ${imported.length} words.`);
+  };
+
+  const handleExportApkg = async () => {
+    if (deckItems.length === 0) return;
+    setIsExportingApkg(true);
+    try {
+      await exportApkg(deckItems, activeDeck?.name);
+    } catch (error) {
+      console.error("Anki export failed", error);
+      alert("Anki export failed. Please try again.");
+    } finally {
+      setIsExportingApkg(false);
+    }
+  };
+
+  // Rebuilt only when the cards change; each keystroke is then an index lookup, ranked by relevance
+  const searchIndex = useMemo(() => buildSearchIndex(deckItems), [deckItems]);
+  const filteredItems = useMemo(() => searchIndex.search(searchTerm), [searchIndex, searchTerm]);
 
   const handleSpeak = (text: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -193,9 +404,16 @@ export const Library: React.FC = () => {
   };
 
   // --- Focus Modal Content ---
-  const focusedItem = focusedIndex !== null ? filteredItems[focusedIndex] : null;
+  const focusedItem = focusedId !== null ? items.find(i => i.id === focusedId) : null;
+  const sourceEntry = focusedItem?.source?.writingEntryId ? writingItems.find(entry => entry.id === focusedItem.source!.writingEntryId) : undefined;
+
+  const openWritingEntry = (entryId: string) => {
+    setFocusedId(null);
+    setActiveTab('writing');
+    setExpandedWriting(new Set([entryId]));
+  };
 
-  if (isLoadingData) {
+  if (isLoadingData || !isLoaded) {
     return (
       <div className="flex h-screen items-center justify-center">
         <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
@@ -208,12 +426,37 @@ export const Library: React.FC = () => {
     <div className="max-w-6xl mx-auto p-4 md:p-8 space-y-6 pb-24 md:pb-8">
       <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
       <input type="file" ref={imageInputRef} onChange={handleImageFileChange} accept="image/*" className="hidden" />
+
+      {isUploadingImage && (
+        <div className="fixed bottom-24 md:bottom-8 right-8 z-50 bg-slate-900 text-white px-4 py-2 rounded-full shadow-lg flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" /> Compressing image...
+        </div>
+      )}
+
+      {undoAction && (
+        <UndoToast message={undoAction.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+      )}
+
+      {restorePlan && (
+        <RestorePreview plan={restorePlan} onCancel={() => setRestorePlan(null)} onConfirm={handleConfirmRestore} />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          aiProvider={aiProvider}
+          existingWords={createWordMatcher(items.map(i => i.word))}
+          onCancel={() => setIsImportOpen(false)}
+          onImport={handleImportItems}
+        />
+      )}
       
+      {isDuplicateFinderOpen && <DuplicateFinder onClose={() => setIsDuplicateFinderOpen(false)} />}
+
       {/* Focus Modal */}
       {focusedItem && (
         <div className="fixed inset-0 z-50 bg-slate-900/95 flex items-center justify-center p-4 animate-in fade-in duration-200">
            <button 
-             onClick={() => setFocusedIndex(null)} 
+             onClick={() => setFocusedId(null)} 
              className="absolute top-4 right-4 z-50 p-3 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors"
            >
              <X className="w-6 h-6" />
@@ -222,8 +465,8 @@ export const Library: React.FC = () => {
            <div className="w-full max-w-6xl h-[90vh] bg-white rounded-3xl overflow-hidden flex flex-col md:flex-row shadow-2xl">
               {/* Image Section (2/3) */}
               <div className="w-full md:w-2/3 bg-black relative flex items-center justify-center h-1/2 md:h-full">
-                 {focusedItem.image ? (
-                   <img src={focusedItem.image} alt={focusedItem.word} className="w-full h-full object-contain" />
+                 {hasImage(focusedItem) ? (
+                   <CardImage item={focusedItem} variant="full" className="w-full h-full object-contain" />
                  ) : (
                    <div className="flex flex-col items-center justify-center text-white/30 gap-4">
                       <ImageIcon className="w-24 h-24 opacity-50" />
@@ -269,6 +512,49 @@ export const Library: React.FC = () => {
                          <p className="text-indigo-900 italic">"{focusedItem.exampleSentence}"</p>
                        </div>
                     </div>
+
+                    {(focusedItem.altImageIds?.length || 0) > 0 && (
+                      <div>
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wide mb-2">Other Images</h3>
+                        <div className="grid grid-cols-3 gap-2">
+                          {focusedItem.altImageIds!.map(imageId => (
+                            <button key={imageId} onClick={() => handleUseAltImage(focusedItem, imageId)} className="aspect-square rounded-lg overflow-hidden border border-slate-200 hover:ring-2 hover:ring-indigo-500" title="Use as main image">
+                              <CardImage item={{ ...focusedItem, image: undefined, imageId }} variant="thumbnail" className="w-full h-full object-cover" />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {focusedItem.source && (
+                      <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100 text-sm text-slate-600 space-y-1">
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wide mb-1 flex items-center gap-1"><Sparkles className="w-4 h-4" /> Source</h3>
+                        <p><span className="font-bold text-slate-800">{SOURCE_LABELS[focusedItem.source.module]}</span> · {new Date(focusedItem.source.createdAt).toLocaleString()}</p>
+                        {focusedItem.source.context && <p className="text-slate-500">{focusedItem.source.context}</p>}
+                        {focusedItem.source.provider && <p className="text-xs text-slate-400 font-mono">{focusedItem.source.provider}{focusedItem.source.model ? ` / ${focusedItem.source.model}` : ''}</p>}
+                        {focusedItem.source.writingEntryId && (sourceEntry ? (
+                          <button onClick={() => openWritingEntry(sourceEntry.id)} className="text-xs font-bold text-indigo-600 hover:underline flex items-center gap-1">Open the writing log <ArrowRight className="w-3 h-3" /></button>
+                        ) : (
+                          <p className="text-xs text-slate-400">The analysis it came from was not saved to the writing logs.</p>
+                        ))}
+                      </div>
+                    )}
+
+                    {(focusedItem.mergedFrom?.length || 0) > 0 && (
+                      <div>
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wide mb-2 flex items-center gap-1"><History className="w-4 h-4" /> Merged From</h3>
+                        <ul className="space-y-2">
+                          {focusedItem.mergedFrom!.map(merged => (
+                            <li key={merged.id} className="text-sm text-slate-600">
+                              <span className="font-bold text-slate-800">{merged.word}</span>
+                              {merged.createdAt && <span className="text-xs text-slate-400"> · added {new Date(merged.createdAt).toLocaleDateString()}</span>}
+                              {merged.source && <span className="text-xs text-slate-400"> · {SOURCE_LABELS[merged.source.module]}</span>}
+                              {merged.context && <p className="text-xs text-slate-500">{merged.context}</p>}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                  </div>
               </div>
            </div>
@@ -276,53 +562,86 @@ export const Library: React.FC = () => {
       )}
 
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-        <div><h2 className="text-2xl font-bold text-slate-900">My Library</h2></div>
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">My Library</h2>
+          {profileName && <p className="text-xs text-slate-500">Backups and restores apply to {profileName}'s profile only.</p>}
+        </div>
         <div className="flex flex-wrap items-center gap-2">
-           <button onClick={handleBackupData} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-2"><FileJson className="w-4 h-4" /> Backup</button>
+           <button onClick={handleBackupData} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-2"><FileJson className="w-4 h-4" /> {activeDeck ? 'Backup Deck' : 'Backup'}</button>
+           <label className="flex items-center gap-1 text-xs text-slate-500" title="Images can make backups much larger">
+             <input type="checkbox" checked={includeImagesInBackup} onChange={(e) => setIncludeImagesInBackup(e.target.checked)} className="accent-indigo-600" />
+             Include images
+           </label>
+           {vaultService.isEnabled() && (
+             <label className="flex items-center gap-1 text-xs text-slate-500" title="Encrypted with your vault passphrase">
+               <input type="checkbox" checked={encryptBackupFile} onChange={(e) => setEncryptBackupFile(e.target.checked)} className="accent-indigo-600" />
+               Encrypt
+             </label>
+           )}
            <button onClick={handleRestoreClick} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-2"><Upload className="w-4 h-4" /> Restore</button>
+           <button onClick={() => setIsImportOpen(true)} className="px-3 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-2"><FileSpreadsheet className="w-4 h-4" /> Import CSV</button>
            
            <button onClick={handleClearAll} className="px-3 py-2 bg-red-50 text-red-600 rounded-lg text-xs font-bold border border-red-200 flex items-center gap-2 hover:bg-red-100 transition-colors"><Trash2 className="w-4 h-4" /> Clear All</button>
 
            {activeTab === 'vocabulary' && (
-             <button onClick={handleExportCSV} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-2"><Download className="w-4 h-4" /> CSV (No Images)</button>
+             <>
+               <button onClick={() => setIsDuplicateFinderOpen(true)} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-2"><Copy className="w-4 h-4" /> Find Duplicates</button>
+               <button onClick={handleExportCSV} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-2"><Download className="w-4 h-4" /> CSV (No Images)</button>
+               <button onClick={() => deckItems.length > 0 && exportAnkiTsv(deckItems, activeDeck?.name)} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-2"><Download className="w-4 h-4" /> Anki TSV</button>
+               <button onClick={handleExportApkg} disabled={isExportingApkg} className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-2 disabled:opacity-50">{isExportingApkg ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />} Anki Deck (.apkg)</button>
+             </>
            )}
         </div>
       </div>
 
-      <div className="relative">
-        <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
-        <input type="text" placeholder="Search words or tags..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full pl-10 pr-4 py-2 border rounded-lg text-sm" />
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
+          <input type="text" placeholder="Search... (tag:business, added:<30d, has:image, example:deadline)" title="Typos are tolerated. Filters: tag:, added:<30d / >1y, has:image / tags / deck / review, and field prefixes word:, def:, zh:, example:, mnemonic:" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full pl-10 pr-4 py-2 border rounded-lg text-sm" />
+        </div>
+        <DeckSelect decks={decks} value={deckFilter} onChange={setDeckFilter} emptyLabel="All decks" includeNoDeck className="md:w-64" />
       </div>
 
       <div className="flex border-b border-slate-200">
          <button onClick={() => setActiveTab('vocabulary')} className={`px-6 py-3 font-medium text-sm border-b-2 ${activeTab === 'vocabulary' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>Vocabulary Cards</button>
          <button onClick={() => setActiveTab('writing')} className={`px-6 py-3 font-medium text-sm border-b-2 ${activeTab === 'writing' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}>Writing Logs</button>
+         <button onClick={() => setActiveTab('decks')} className={`px-6 py-3 font-medium text-sm border-b-2 flex items-center gap-1 ${activeTab === 'decks' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}><FolderOpen className="w-4 h-4" /> Decks</button>
+         <button onClick={() => setActiveTab('trash')} className={`px-6 py-3 font-medium text-sm border-b-2 flex items-center gap-1 ${activeTab === 'trash' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}><Trash2 className="w-4 h-4" /> Trash</button>
+         <button onClick={() => setActiveTab('storage')} className={`px-6 py-3 font-medium text-sm border-b-2 flex items-center gap-1 ${activeTab === 'storage' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500'}`}><HardDrive className="w-4 h-4" /> Storage</button>
       </div>
 
-      {activeTab === 'vocabulary' ? (
+      {activeTab === 'decks' ? (
+        <DeckPanel onOpenDeck={(deckId) => { setDeckFilter(deckId); setActiveTab('vocabulary'); }} />
+      ) : activeTab === 'storage' ? (
+        <StoragePanel />
+      ) : activeTab === 'trash' ? (
+        <TrashPanel onRestoreSnapshot={handleRestoreSnapshot} />
+      ) : activeTab === 'vocabulary' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredItems.map((item, index) => (
-            <div key={index} className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 relative group flex flex-col gap-4">
+          {filteredItems.map((item) => {
+            const id = item.id!;
+            return (
+            <div key={id} className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 relative group flex flex-col gap-4">
               
               {/* Image Area (16:9) */}
               <div 
                 className="w-full aspect-video bg-slate-100 rounded-lg overflow-hidden relative group/image cursor-pointer border border-slate-100"
-                onClick={() => setFocusedIndex(index)}
+                onClick={() => setFocusedId(id)}
               >
-                 {item.image ? (
+                 {hasImage(item) ? (
                    <>
-                     <img src={item.image} alt={item.word} className="w-full h-full object-cover" />
+                     <CardImage item={item} variant="thumbnail" className="w-full h-full object-cover" />
                      {/* Overlay Actions */}
                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center gap-3">
                         <button 
-                          onClick={(e) => { e.stopPropagation(); setFocusedIndex(index); }} 
+                          onClick={(e) => { e.stopPropagation(); setFocusedId(id); }} 
                           className="p-2 bg-white/20 backdrop-blur-sm rounded-full text-white hover:bg-white/40 transition-colors"
                           title="Focus Mode"
                         >
                           <Maximize2 className="w-5 h-5" />
                         </button>
                         <button 
-                          onClick={(e) => { e.stopPropagation(); triggerImageUpload(index); }} 
+                          onClick={(e) => { e.stopPropagation(); triggerImageUpload(id); }} 
                           className="p-2 bg-white/20 backdrop-blur-sm rounded-full text-white hover:bg-white/40 transition-colors"
                           title="Change Image"
                         >
@@ -332,7 +651,7 @@ export const Library: React.FC = () => {
                    </>
                  ) : (
                    <button 
-                     onClick={(e) => { e.stopPropagation(); triggerImageUpload(index); }}
+                     onClick={(e) => { e.stopPropagation(); triggerImageUpload(id); }}
                      className="w-full h-full flex flex-col items-center justify-center text-slate-400 hover:bg-slate-200 hover:text-slate-500 transition-colors gap-2"
                    >
                      <ImageIcon className="w-8 h-8 opacity-50" />
@@ -344,37 +663,47 @@ export const Library: React.FC = () => {
               <div className="space-y-3 flex-1">
                 <div className="flex justify-between items-start">
                   <div>
-                    <h3 className="text-xl font-bold text-slate-900 cursor-pointer hover:text-indigo-600" onClick={() => setFocusedIndex(index)}>{item.word}</h3>
+                    <h3 className="text-xl font-bold text-slate-900 cursor-pointer hover:text-indigo-600" onClick={() => setFocusedId(id)}>{item.word}</h3>
                     <div className="flex items-center gap-2 mt-1">
                        <span className="text-xs text-slate-500 font-mono">{item.phonetic}</span>
                        <button onClick={(e) => handleSpeak(item.word, e)} className="text-slate-400 hover:text-indigo-600"><Volume2 className="w-3 h-3" /></button>
                     </div>
                   </div>
                   <div className="flex gap-1">
-                     <button onClick={() => { const newS = new Set(revealedCards); if(newS.has(index)) newS.delete(index); else newS.add(index); setRevealedCards(newS); }} className="p-1.5 text-slate-400 hover:text-indigo-600"><Eye className="w-4 h-4" /></button>
-                     <button onClick={() => handleDeleteVocab(index)} className="p-1.5 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+                     <button onClick={() => { const newS = new Set(revealedCards); if(newS.has(id)) newS.delete(id); else newS.add(id); setRevealedCards(newS); }} className="p-1.5 text-slate-400 hover:text-indigo-600"><Eye className="w-4 h-4" /></button>
+                     <button onClick={() => handleDeleteVocab(id)} className="p-1.5 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
                   </div>
                 </div>
 
                 {/* Tag Section */}
                 <div className="flex flex-wrap gap-1 items-center min-h-[24px]">
-                  {editingIndex === index ? (
-                    <div className="flex items-center gap-1 w-full animate-in fade-in">
-                      <input autoFocus value={tempTags} onChange={e => setTempTags(e.target.value)} className="flex-1 text-xs border p-1 rounded" placeholder="Tags (comma separated)" />
-                      <button onClick={() => saveTags(index)} className="text-indigo-600"><Check className="w-4 h-4" /></button>
-                      <button onClick={() => setEditingIndex(null)} className="text-slate-400"><X className="w-4 h-4" /></button>
+                  {editingId === id ? (
+                    <div className="w-full space-y-2 animate-in fade-in">
+                      <div className="flex items-center gap-1">
+                        <input autoFocus value={tempTags} onChange={e => setTempTags(e.target.value)} className="flex-1 text-xs border p-1 rounded" placeholder="Tags (comma separated)" />
+                        <button onClick={() => saveTags(item)} className="text-indigo-600"><Check className="w-4 h-4" /></button>
+                        <button onClick={() => setEditingId(null)} className="text-slate-400"><X className="w-4 h-4" /></button>
+                      </div>
+                      {decks.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {decks.map(deck => (
+                            <button key={deck.id} onClick={() => toggleTempDeck(deck.id)} className={`text-[10px] px-2 py-0.5 rounded-full border font-bold ${tempDeckIds.includes(deck.id) ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-slate-500 border-slate-300'}`}>{deck.name}</button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <>
+                      {decks.filter(deck => item.deckIds?.includes(deck.id)).map(deck => <span key={deck.id} className="text-[10px] bg-violet-50 text-violet-700 border border-violet-200 px-2 py-0.5 rounded-full font-bold flex items-center gap-1"><FolderOpen className="w-3 h-3" />{deck.name}</span>)}
                       {item.tags?.map((t, i) => <span key={i} className="text-[10px] bg-indigo-600 text-white px-2 py-0.5 rounded font-bold uppercase">{t}</span>)}
-                      <button onClick={() => startEditing(index, item.tags)} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Edit Tags"><Edit3 className="w-3 h-3" /></button>
+                      <button onClick={() => startEditing(item)} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Edit Tags & Decks"><Edit3 className="w-3 h-3" /></button>
                     </>
                   )}
                 </div>
 
                 <div className="bg-amber-50 p-2 rounded text-xs italic text-amber-900">"{item.mnemonic}"</div>
                 
-                {revealedCards.has(index) && (
+                {revealedCards.has(id) && (
                   <div className="text-sm space-y-2 animate-in fade-in pt-2 border-t border-slate-100">
                      <p className="font-medium text-slate-800">{item.definition}</p>
                      <p className="text-slate-500 text-xs">{item.chineseTranslation}</p>
@@ -383,7 +712,8 @@ export const Library: React.FC = () => {
                 )}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       ) : (
         <div className="space-y-4">
@@ -400,7 +730,10 @@ export const Library: React.FC = () => {
                      <span className="text-xs font-bold bg-slate-100 px-2 py-0.5 rounded text-slate-700">{entry.context}</span>
                      <p className="text-sm font-medium mt-1">{entry.originalText.substring(0, 60)}{entry.originalText.length > 60 ? '...' : ''}</p>
                    </div>
-                   {expandedWriting.has(entry.id) ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+                   <div className="flex items-center gap-2">
+                     <button onClick={(e) => { e.stopPropagation(); handleDeleteWriting(entry.id); }} className="p-1.5 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+                     {expandedWriting.has(entry.id) ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+                   </div>
                 </div>
                 {expandedWriting.has(entry.id) && (
                   <div className="mt-4 pt-4 border-t space-y-3 bg-slate-50 p-3 rounded">
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { AppView } from '../types';
-import { BookOpen, PenTool, MessageCircle, LayoutDashboard, Library, BrainCircuit } from 'lucide-react';
+import { BookOpen, PenTool, MessageCircle, LayoutDashboard, Library, BrainCircuit, Layers, Gauge } from 'lucide-react';
 
 interface NavigationProps {
   currentView: AppView;
@@ -13,9 +13,11 @@ export const Navigation: React.FC<NavigationProps> = ({ currentView, setView })
     { id: AppView.DASHBOARD, label: 'Dashboard', icon: LayoutDashboard },
     { id: AppView.VOCABULARY, label: 'Vocabulary Builder', icon: BookOpen },
     { id: AppView.LIBRARY, label: 'My Library', icon: Library },
+    { id: AppView.REVIEW, label: 'Daily Review', icon: Layers },
     { id: AppView.QUIZ, label: 'Vocabulary Quiz', icon: BrainCircuit },
     { id: AppView.WRITING, label: 'Writing Lab', icon: PenTool },
     { id: AppView.SPEAKING, label: 'Oral Coach', icon: MessageCircle },
+    { id: AppView.USAGE, label: 'AI Usage', icon: Gauge },
   ];
 
   return (
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createChatSession, ChatSession } from '../services/geminiService';
-import { Mic, MicOff, Send, Sparkles, ArrowRight } from 'lucide-react';
-import { AiProvider } from '../types';
+import { AiAbortedError, useAiCall } from '../services/aiRequest';
+import { providerFor } from '../services/aiRouting';
+import { createStreamingSpeaker, StreamingSpeaker } from '../services/audioService';
+import { StopButton } from './StopButton';
+import { AnsweredBy } from './AnsweredBy';
+import { Mic, MicOff, Send, Sparkles, ArrowRight, Volume2, VolumeX } from 'lucide-react';
+import { AiProvider, AiAnswerRoute } from '../types';
 
 const SCENARIOS = [
   { id: 'interview', title: 'Job Interview', prompt: "You are a friendly but professional hiring manager interviewing a candidate. Ask one question at a time. Correct them gently if they make major mistakes." },
@@ -15,6 +20,7 @@ interface Message {
   id: string;
   role: 'user' | 'model';
   text: string;
+  route?: AiAnswerRoute; // Set on replies a fallback provider gave
 }
 
 interface OralCoachProps {
@@ -34,6 +40,11 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // The reply currently streaming in, rendered as it arrives
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const aiCall = useAiCall();
+  const speakerRef = useRef<StreamingSpeaker | null>(null);
   
   // Custom Scenario State
   const [customTopic, setCustomTopic] = useState('');
@@ -58,41 +69,71 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
 
     const systemPrompt = prompt + " IMPORTANT: If the user makes a grammar mistake, gently mention it in parenthesis at the end of your response, e.g. (Correction: ...). Keep your responses concise (under 40 words) to encourage back-and-forth conversation.";
     
+    aiCall.stop(); // A reply still on its way belongs to the previous session
+    speakerRef.current?.cancel();
     chatSessionRef.current = createChatSession(aiProvider, systemPrompt);
 
     setMessages([{ 
       id: 'init', 
       role: 'model', 
-      text: `(Scenario: ${title} - ${aiProvider}) Hello! Ready to start?` 
+      text: `(Scenario: ${title} - ${providerFor('chat', aiProvider)}) Hello! Ready to start?` 
     }]);
-  }, [activeScenario, aiProvider, customSessionStarted]); 
+  }, [activeScenario, aiProvider, customSessionStarted, aiCall.stop]); 
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  useEffect(() => () => speakerRef.current?.cancel(), []);
+
+  const handleStop = () => {
+    aiCall.stop();
+    speakerRef.current?.cancel();
+  };
+
+  const toggleSpeech = () => {
+    if (speakReplies) speakerRef.current?.cancel();
+    setSpeakReplies(!speakReplies);
+  };
+
   const handleSend = async () => {
-    if (!input.trim() || !chatSessionRef.current) return;
+    if (!input.trim() || isLoading || !chatSessionRef.current) return;
 
     const userMsg: Message = { id: Date.now().toString(), role: 'user', text: input };
     setMessages(prev => [...prev, userMsg]);
     setInput('');
     setIsLoading(true);
 
+    const replyId = (Date.now() + 1).toString();
+    const setReply = (text: string) => setMessages(prev => prev.map(m => m.id === replyId ? { ...m, text } : m));
+    setMessages(prev => [...prev, { id: replyId, role: 'model', text: '' }]);
+    setStreamingId(replyId);
+    speakerRef.current?.cancel();
+    const speaker = speakReplies ? createStreamingSpeaker() : null;
+    speakerRef.current = speaker;
+
     try {
-      const responseText = await chatSessionRef.current.sendMessage(userMsg.text);
-      
-      const modelMsg: Message = { 
-        id: (Date.now() + 1).toString(), 
-        role: 'model', 
-        text: responseText 
-      };
-      setMessages(prev => [...prev, modelMsg]);
-    } catch (error) {
+      const responseText = await chatSessionRef.current.sendMessageStream(userMsg.text, textSoFar => {
+        setReply(textSoFar);
+        speaker?.update(textSoFar);
+      }, {
+        ...aiCall.start(),
+        onRoute: route => {
+          if (route.skipped.length) setMessages(prev => prev.map(m => m.id === replyId ? { ...m, route } : m));
+        }
+      });
+      setReply(responseText);
+      speaker?.finish(responseText);
+    } catch (error: any) {
+      speaker?.cancel();
+      // The session doesn't remember a failed turn, so neither does the transcript
+      setMessages(prev => prev.filter(m => m.id !== replyId));
+      if (error instanceof AiAbortedError) return;
       console.error("Chat error:", error);
-      alert("Error sending message. Please check API settings.");
+      alert(`Error sending message: ${error.message}`);
     } finally {
       setIsLoading(false);
+      setStreamingId(null);
     }
   };
 
@@ -150,13 +191,22 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
            <h2 className="text-2xl font-bold text-white">Oral Coach</h2>
            <p className="text-slate-300 text-sm">Roleplay scenarios to prepare for exams.</p>
         </div>
-        <select 
-          value={activeScenario.id}
-          onChange={handleScenarioChange}
-          className="p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white shadow-sm outline-none focus:ring-2 focus:ring-indigo-500 min-w-[200px]"
-        >
-          {SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
-        </select>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleSpeech}
+            className="p-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-300 hover:text-white"
+            title={speakReplies ? "Stop reading replies aloud" : "Read replies aloud"}
+          >
+            {speakReplies ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+          </button>
+          <select 
+            value={activeScenario.id}
+            onChange={handleScenarioChange}
+            className="p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white shadow-sm outline-none focus:ring-2 focus:ring-indigo-500 min-w-[200px]"
+          >
+            {SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+          </select>
+        </div>
        </div>
 
        <div className="flex-1 bg-slate-800 rounded-2xl shadow-xl border border-slate-700 overflow-hidden flex flex-col">
@@ -191,7 +241,7 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
             <>
               {/* Chat Area */}
               <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-900/40">
-                {messages.map((msg) => (
+                {messages.filter(msg => msg.text).map((msg) => (
                   <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                     <div 
                       className={`max-w-[80%] p-4 rounded-2xl text-sm md:text-base leading-relaxed ${
@@ -201,16 +251,21 @@ export const OralCoach: React.FC<OralCoachProps> = ({ aiProvider }) => {
                       }`}
                     >
                       {msg.text}
+                      {msg.route && <div className="mt-2"><AnsweredBy route={msg.route} /></div>}
                     </div>
                   </div>
                 ))}
                 {isLoading && (
-                   <div className="flex justify-start">
-                     <div className="bg-slate-700 px-4 py-2 rounded-full flex items-center gap-2">
-                        <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" />
-                        <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce delay-75" />
-                        <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce delay-150" />
-                     </div>
+                   <div className="flex justify-start items-center gap-2">
+                     {/* Typing dots until the first words of the reply arrive */}
+                     {!messages.find(m => m.id === streamingId)?.text && (
+                       <div className="bg-slate-700 px-4 py-2 rounded-full flex items-center gap-2">
+                          <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" />
+                          <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce delay-75" />
+                          <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce delay-150" />
+                       </div>
+                     )}
+                     <StopButton onStop={handleStop} className="rounded-full py-1.5" />
                    </div>
                 )}
                 <div ref={messagesEndRef} />
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { profileService } from '../services/profileService';
+import { Users, Plus, Edit3, Trash2, Check, X, AlertCircle } from 'lucide-react';
+
+interface ProfilePickerProps {
+  onSelect: (profile: LearnerProfile) => void;
+}
+
+const AVATAR_COLORS = ['bg-indigo-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-sky-500', 'bg-violet-500'];
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ onSelect }) => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(() => profileService.list());
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const profile = profileService.create(newName);
+      setProfiles(profileService.list());
+      setNewName('');
+      setError(null);
+      onSelect(profile);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRename = (id: string) => {
+    try {
+      setProfiles(profileService.rename(id, editName));
+      setEditingId(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (profile: LearnerProfile) => {
+    if (!confirm(`Delete "${profile.name}" and all of their words, writing logs and review history? This cannot be undone.`)) return;
+    try {
+      setProfiles(await profileService.remove(profile.id));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200">
+        <div className="bg-indigo-600 p-8 text-center">
+          <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Users className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-white">Who's learning?</h1>
+          <p className="text-indigo-100 text-sm mt-2">Each profile has its own library, writing logs and reviews.</p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {profiles.map((profile, index) => (
+            <div key={profile.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/50 transition-colors group">
+              <div className={`w-10 h-10 rounded-full ${AVATAR_COLORS[index % AVATAR_COLORS.length]} text-white font-bold flex items-center justify-center shrink-0`}>
+                {profile.name.charAt(0).toUpperCase()}
+              </div>
+              {editingId === profile.id ? (
+                <div className="flex items-center gap-1 flex-1">
+                  <input autoFocus value={editName} onChange={(e) => setEditName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleRename(profile.id)} className="flex-1 text-sm border p-2 rounded-lg" />
+                  <button onClick={() => handleRename(profile.id)} className="p-1.5 text-indigo-600"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <>
+                  <button onClick={() => onSelect(profile)} className="flex-1 text-left font-bold text-slate-800">{profile.name}</button>
+                  <button onClick={() => { setEditingId(profile.id); setEditName(profile.name); }} className="p-1.5 text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" title="Rename"><Edit3 className="w-4 h-4" /></button>
+                  {profiles.length > 1 && (
+                    <button onClick={() => handleDelete(profile)} className="p-1.5 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity" title="Delete profile"><Trash2 className="w-4 h-4" /></button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate} className="flex gap-2 pt-3">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New profile name..."
+              className="flex-1 p-3 rounded-xl border border-slate-300 bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+            />
+            <button type="submit" disabled={!newName.trim()} className="px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center gap-1 text-sm disabled:opacity-50">
+              <Plus className="w-4 h-4" /> Add
+            </button>
+          </form>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
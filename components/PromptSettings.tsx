@@ -0,0 +1,198 @@
+import React, { useState, useMemo } from 'react';
+import { MnemonicCategory, PromptSettings as PromptSettingsValue, PromptTemplateId } from '../types';
+import { profileService } from '../services/profileService';
+import { generateId } from '../services/storage';
+import {
+  PROMPT_TEMPLATES, DEFAULT_MNEMONIC_CATEGORIES, MNEMONIC_PRESETS,
+  configurePrompts, getPromptSettings, mnemonicCategoriesOf, templateText, renderPrompt
+} from '../services/promptTemplates';
+import { X, Loader2, AlertCircle, ScrollText, Plus, Trash2, RotateCcw, Eye } from 'lucide-react';
+
+interface PromptSettingsProps {
+  onClose: () => void;
+}
+
+type Tab = 'mnemonics' | PromptTemplateId;
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+const isBuiltInCategory = (category: MnemonicCategory) => DEFAULT_MNEMONIC_CATEGORIES.some(builtIn => builtIn.id === category.id);
+
+export const PromptSettings: React.FC<PromptSettingsProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<PromptSettingsValue>(getPromptSettings);
+  const [tab, setTab] = useState<Tab>('mnemonics');
+  const [previewId, setPreviewId] = useState<PromptTemplateId>('vocabularyByTopic');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = mnemonicCategoriesOf(draft);
+  const shownTemplate = tab === 'mnemonics' ? previewId : tab;
+  const preview = useMemo(() => renderPrompt(shownTemplate, PROMPT_TEMPLATES[shownTemplate].sample, draft), [shownTemplate, draft]);
+
+  const setCategories = (next: MnemonicCategory[]) => setDraft({ ...draft, mnemonicCategories: next });
+
+  const updateCategory = (id: string, changes: Partial<MnemonicCategory>) => {
+    setCategories(categories.map(category => category.id === id ? { ...category, ...changes } : category));
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = MNEMONIC_PRESETS.find(p => p.id === presetId);
+    if (preset) setDraft({ ...draft, mnemonicCategories: preset.categories, mnemonicNote: preset.note });
+  };
+
+  // Text identical to the built-in template is stored as "no edit", so later built-in updates still apply
+  const editTemplate = (id: PromptTemplateId, changes: { system?: string, prompt?: string }) => {
+    const current = templateText(id, draft);
+    const next = { system: current.system, prompt: current.prompt, ...changes };
+    const builtIn = PROMPT_TEMPLATES[id];
+    const overrides = { ...draft.overrides };
+    if (next.system === builtIn.system && next.prompt === builtIn.prompt) delete overrides[id];
+    else overrides[id] = { ...next, baseVersion: draft.overrides?.[id]?.baseVersion ?? builtIn.version };
+    setDraft({ ...draft, overrides });
+  };
+
+  const resetTemplate = (id: PromptTemplateId) => {
+    const overrides = { ...draft.overrides };
+    delete overrides[id];
+    setDraft({ ...draft, overrides });
+  };
+
+  const handleResetAll = () => {
+    if (confirm("Restore every prompt template and the default mnemonic categories?")) setDraft({});
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await profileService.updateSettings({ prompts: draft });
+      configurePrompts(draft);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+      setIsSaving(false);
+    }
+  };
+
+  const renderTemplateEditor = (id: PromptTemplateId) => {
+    const template = PROMPT_TEMPLATES[id];
+    const text = templateText(id, draft);
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-slate-500">
+            {text.isCustom ? `Edited, based on built-in version ${draft.overrides![id]!.baseVersion}` : `Built-in version ${template.version}`}
+          </p>
+          <button onClick={() => resetTemplate(id)} disabled={!text.isCustom} className="px-3 py-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50">
+            <RotateCcw className="w-3.5 h-3.5" /> Reset to Default
+          </button>
+        </div>
+        {text.isOutdated && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+            The built-in template has been updated (now version {template.version}) since you edited it. Reset to get the new text.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2 text-xs">
+          {Object.entries(template.variables).map(([name, description]) => (
+            <span key={name} title={description} className="px-2 py-1 bg-indigo-50 text-indigo-700 rounded font-mono">{`{${name}}`}</span>
+          ))}
+        </div>
+        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">System prompt</label>
+        <textarea value={text.system} onChange={(e) => editTemplate(id, { system: e.target.value })} className="w-full h-56 p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-xs font-mono" />
+        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">User prompt</label>
+        <textarea value={text.prompt} onChange={(e) => editTemplate(id, { prompt: e.target.value })} className="w-full h-20 p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-xs font-mono" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-5xl max-h-[90vh] bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2"><ScrollText className="w-5 h-5 text-indigo-600" /> Prompts & Mnemonic Style</h3>
+            <p className="text-sm text-slate-500">How cards and writing feedback are asked for. Saved in this profile.</p>
+          </div>
+          <button onClick={onClose} disabled={isSaving} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2 flex-wrap">
+          {(['mnemonics', ...TEMPLATE_IDS] as Tab[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium ${tab === id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {id === 'mnemonics' ? 'Mnemonic style' : PROMPT_TEMPLATES[id].name}
+              {id !== 'mnemonics' && draft.overrides?.[id] && ' •'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {tab === 'mnemonics' ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Preset</label>
+                <select value="" onChange={(e) => applyPreset(e.target.value)} className="flex-1 p-2 border border-slate-300 rounded-lg text-sm bg-slate-50">
+                  <option value="">Apply a preset...</option>
+                  {MNEMONIC_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+              </div>
+              <p className="text-sm text-slate-500">The AI picks one enabled category per mnemonic.</p>
+              {categories.map(category => (
+                <div key={category.id} className={`p-3 rounded-xl border space-y-2 ${category.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                  <div className="flex items-center gap-2">
+                    <input type="checkbox" checked={category.enabled} onChange={(e) => updateCategory(category.id, { enabled: e.target.checked })} />
+                    <input value={category.label} onChange={(e) => updateCategory(category.id, { label: e.target.value })} placeholder="Category name" className="flex-1 p-1.5 border border-slate-200 rounded text-sm font-medium" />
+                    {!isBuiltInCategory(category) && (
+                      <button onClick={() => setCategories(categories.filter(c => c.id !== category.id))} className="p-1.5 text-slate-400 hover:text-red-600" title="Remove category">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <input value={category.description} onChange={(e) => updateCategory(category.id, { description: e.target.value })} placeholder="What the scene should use" className="w-full p-1.5 border border-slate-200 rounded text-sm" />
+                </div>
+              ))}
+              <button
+                onClick={() => setCategories([...categories, { id: generateId(), label: '', description: '', enabled: true }])}
+                className="w-full py-2 border border-dashed border-slate-300 text-slate-500 rounded-xl hover:bg-slate-50 text-sm flex items-center justify-center gap-1"
+              >
+                <Plus className="w-4 h-4" /> Add Category
+              </button>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide pt-2">Style note for every mnemonic</label>
+              <input value={draft.mnemonicNote || ''} onChange={(e) => setDraft({ ...draft, mnemonicNote: e.target.value })} placeholder='e.g. "No anime, use Cantonese puns" or "Workplace only"' className="w-full p-2 border border-slate-300 rounded-lg text-sm" />
+            </div>
+          ) : renderTemplateEditor(tab)}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Eye className="w-4 h-4 text-indigo-600" /> Preview</h4>
+              {tab === 'mnemonics' && (
+                <select value={previewId} onChange={(e) => setPreviewId(e.target.value as PromptTemplateId)} className="p-1 border border-slate-200 rounded text-xs">
+                  {TEMPLATE_IDS.map(id => <option key={id} value={id}>{PROMPT_TEMPLATES[id].name}</option>)}
+                </select>
+              )}
+            </div>
+            <p className="text-xs text-slate-400">With example values: {Object.entries(PROMPT_TEMPLATES[shownTemplate].sample).map(([name, value]) => `${name} = "${value}"`).join(', ')}</p>
+            <pre className="p-3 bg-slate-900 text-slate-100 rounded-xl text-xs whitespace-pre-wrap font-mono max-h-96 overflow-y-auto">{preview.system}</pre>
+            <pre className="p-3 bg-slate-800 text-indigo-100 rounded-xl text-xs whitespace-pre-wrap font-mono">{preview.prompt}</pre>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-between items-center gap-2 bg-slate-50">
+          <button onClick={handleResetAll} className="px-3 py-2 text-slate-500 hover:text-red-600 text-sm font-medium flex items-center gap-1">
+            <RotateCcw className="w-4 h-4" /> Reset All to Defaults
+          </button>
+          <div className="flex items-center gap-2">
+            {error && <span className="text-sm text-red-600 flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {error}</span>}
+            <button onClick={onClose} disabled={isSaving} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-white text-sm font-medium">Cancel</button>
+            <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />} Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
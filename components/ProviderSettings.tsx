@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { OpenAiCompatibleConfig, AiRequestSettings, AiCacheSettings, MockProviderSettings, MockFailure, AiRouting, AiFeature, AiProvider } from '../types';
+import { profileService } from '../services/profileService';
+import { configureCustomEndpoint, createOpenAiCompatibleProvider, listProviders, CUSTOM_PROVIDER_ID } from '../services/aiProviders';
+import { configureRouting, getRouting } from '../services/aiRouting';
+import { FEATURE_LABELS } from '../services/usageService';
+import { configureAiRequests, getAiRequestSettings } from '../services/aiRequest';
+import { aiCache, configureAiCache, getAiCacheSettings, AiCacheStats } from '../services/aiCache';
+import { configureMockProvider, getMockProviderSettings } from '../services/mockProvider';
+import { formatBytes } from '../services/storageUsageService';
+import { X, Loader2, AlertCircle, Server, Zap, Timer, Database, FlaskConical, Route, ChevronUp, ChevronDown } from 'lucide-react';
+
+const MOCK_FAILURES: Record<MockFailure, string> = {
+  server: 'Server error (503)',
+  rateLimit: 'Rate limit (429)',
+  auth: 'Rejected key (401)',
+  network: 'Network failure',
+  timeout: 'Timeout',
+  badJson: 'Malformed JSON'
+};
+
+interface ProviderSettingsProps {
+  onClose: () => void;
+  onSaved: () => void; // Called after the endpoint is saved, e.g. to switch to it
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onClose, onSaved }) => {
+  const [baseUrl, setBaseUrl] = useState('http://localhost:11434/v1');
+  const [model, setModel] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Request policy for every provider, not just the custom endpoint
+  const [timeoutSeconds, setTimeoutSeconds] = useState(() => getAiRequestSettings().timeoutMs / 1000);
+  const [maxRetries, setMaxRetries] = useState(() => getAiRequestSettings().maxRetries);
+  const [requestMessage, setRequestMessage] = useState<string | null>(null);
+  const [cacheSettings, setCacheSettings] = useState<AiCacheSettings>(getAiCacheSettings);
+  const [cacheStats, setCacheStats] = useState<AiCacheStats | null>(null);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const [mockSettings, setMockSettings] = useState<MockProviderSettings>(getMockProviderSettings);
+  const [mockMessage, setMockMessage] = useState<string | null>(null);
+  const [routing, setRouting] = useState<AiRouting>(getRouting);
+  const [routingMessage, setRoutingMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    profileService.getSettings().then(settings => {
+      if (!settings.customEndpoint) return;
+      setBaseUrl(settings.customEndpoint.baseUrl);
+      setModel(settings.customEndpoint.model);
+      setApiKey(settings.customEndpoint.apiKey || '');
+    });
+    aiCache.stats().then(setCacheStats).catch(err => setCacheMessage(err.message));
+  }, []);
+
+  const draft = (): OpenAiCompatibleConfig => ({ baseUrl: baseUrl.trim(), model: model.trim(), apiKey: apiKey.trim() || undefined });
+
+  const handleTest = async () => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const config = draft();
+      const provider = createOpenAiCompatibleProvider({ id: CUSTOM_PROVIDER_ID, label: 'The endpoint', jsonMode: false, getConfig: () => config });
+      const reply = await provider.chat("You are a connection test. Reply with one short word.").sendMessage("Ping");
+      setMessage(`Connected. ${config.model} replied: "${reply.trim().slice(0, 60)}"`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveRequests = async () => {
+    setRequestMessage(null);
+    const aiRequest: AiRequestSettings = {
+      timeoutMs: Math.min(300, Math.max(5, Math.round(timeoutSeconds) || 60)) * 1000,
+      maxRetries: Math.min(5, Math.max(0, Math.round(maxRetries) || 0))
+    };
+    try {
+      await profileService.updateSettings({ aiRequest });
+      configureAiRequests(aiRequest);
+      setTimeoutSeconds(aiRequest.timeoutMs / 1000);
+      setMaxRetries(aiRequest.maxRetries);
+      setRequestMessage('Saved.');
+    } catch (err: any) {
+      setRequestMessage(err.message);
+    }
+  };
+
+  const handleSaveCache = async () => {
+    setCacheMessage(null);
+    const aiCacheSettings: AiCacheSettings = {
+      enabled: cacheSettings.enabled,
+      ttlDays: Math.min(365, Math.max(1, Math.round(cacheSettings.ttlDays) || 30)),
+      maxMegabytes: Math.min(100, Math.max(1, Math.round(cacheSettings.maxMegabytes) || 5))
+    };
+    try {
+      await profileService.updateSettings({ aiCache: aiCacheSettings });
+      configureAiCache(aiCacheSettings);
+      await aiCache.evict();
+      setCacheSettings(aiCacheSettings);
+      setCacheStats(await aiCache.stats());
+      setCacheMessage('Saved.');
+    } catch (err: any) {
+      setCacheMessage(err.message);
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm("Forget all cached AI answers? The same requests will be paid for again.")) return;
+    try {
+      await aiCache.clear();
+      setCacheStats(await aiCache.stats());
+      setCacheMessage('Cache cleared.');
+    } catch (err: any) {
+      setCacheMessage(err.message);
+    }
+  };
+
+  const setFeatureRoute = (feature: AiFeature, provider: AiProvider) => {
+    const features = { ...routing.features };
+    if (provider) features[feature] = provider;
+    else delete features[feature];
+    setRouting({ ...routing, features });
+  };
+
+  const toggleFallback = (provider: AiProvider) => {
+    const fallbacks = routing.fallbacks.includes(provider) ? routing.fallbacks.filter(p => p !== provider) : [...routing.fallbacks, provider];
+    setRouting({ ...routing, fallbacks });
+  };
+
+  const moveFallback = (index: number, by: -1 | 1) => {
+    const fallbacks = [...routing.fallbacks];
+    [fallbacks[index], fallbacks[index + by]] = [fallbacks[index + by], fallbacks[index]];
+    setRouting({ ...routing, fallbacks });
+  };
+
+  const handleSaveRouting = async () => {
+    setRoutingMessage(null);
+    try {
+      await profileService.updateSettings({ aiRouting: routing });
+      configureRouting(routing);
+      setRoutingMessage('Saved.');
+    } catch (err: any) {
+      setRoutingMessage(err.message);
+    }
+  };
+
+  const handleSaveMock = async () => {
+    setMockMessage(null);
+    const mockProvider: MockProviderSettings = {
+      latencyMs: Math.min(60_000, Math.max(0, Math.round(mockSettings.latencyMs) || 0)),
+      failEvery: Math.min(100, Math.max(0, Math.round(mockSettings.failEvery) || 0)),
+      failure: mockSettings.failure
+    };
+    try {
+      await profileService.updateSettings({ mockProvider });
+      configureMockProvider(mockProvider);
+      setMockSettings(mockProvider);
+      setMockMessage('Saved.');
+    } catch (err: any) {
+      setMockMessage(err.message);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const config = draft();
+      await profileService.updateSettings({ customEndpoint: config });
+      configureCustomEndpoint(config);
+      onSaved();
+    } catch (err: any) {
+      setError(err.message);
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2"><Server className="w-5 h-5 text-indigo-600" /> AI Settings</h3>
+            <p className="text-sm text-slate-500">Custom endpoint: any OpenAI-compatible server, such as Ollama, LM Studio or your company's gateway.</p>
+          </div>
+          <button onClick={onClose} disabled={isBusy} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <form onSubmit={handleSave} className="p-6 space-y-3">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Base URL</label>
+          <input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="http://localhost:11434/v1" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono" />
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Model</label>
+          <input value={model} onChange={(e) => setModel(e.target.value)} placeholder="e.g. llama3.1:8b or qwen2.5-7b-instruct" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono" />
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">API Key (optional)</label>
+          <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="Local servers usually need none" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+          <p className="text-xs text-slate-400">Saved in this profile on this device. The server must allow requests from this page (CORS); for Ollama set OLLAMA_ORIGINS.</p>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+          <div className="flex gap-2 pt-2">
+            <button type="button" onClick={handleTest} disabled={isBusy || !baseUrl.trim() || !model.trim()} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium flex items-center gap-2 disabled:opacity-50">
+              <Zap className="w-4 h-4" /> Test
+            </button>
+            <button type="submit" disabled={isBusy || !baseUrl.trim() || !model.trim()} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg flex items-center justify-center gap-2 text-sm disabled:opacity-50">
+              {isBusy && <Loader2 className="w-4 h-4 animate-spin" />} Save & Use
+            </button>
+          </div>
+        </form>
+
+        <div className="px-6 pb-6 space-y-3">
+          <h4 className="pt-4 border-t border-slate-100 text-sm font-bold text-slate-700 flex items-center gap-2"><Route className="w-4 h-4 text-indigo-600" /> Routing</h4>
+          <p className="text-xs text-slate-400">Send a feature to a particular provider, e.g. DeepSeek for chat and Gemini for writing analysis. Others use the header choice.</p>
+          {(Object.keys(FEATURE_LABELS) as AiFeature[]).map(feature => (
+            <label key={feature} className="flex items-center gap-3 text-sm text-slate-600">
+              <span className="flex-1">{FEATURE_LABELS[feature]}</span>
+              <select value={routing.features[feature] || ''} onChange={(e) => setFeatureRoute(feature, e.target.value)} className="w-40 p-1.5 rounded-lg border border-slate-300 bg-slate-50 text-sm">
+                <option value="">Header choice</option>
+                {listProviders().map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </label>
+          ))}
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wide pt-1">Fallbacks, in order</p>
+          <p className="text-xs text-slate-400">Tried when a call fails with a rejected key, a quota or rate limit, a server error or a timeout. Providers that are not set up are skipped.</p>
+          {routing.fallbacks.map((id, index) => (
+            <div key={id} className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked onChange={() => toggleFallback(id)} />
+              <span className="flex-1">{index + 1}. {listProviders().find(option => option.id === id)?.label || id}</span>
+              <button type="button" onClick={() => moveFallback(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Move up"><ChevronUp className="w-4 h-4" /></button>
+              <button type="button" onClick={() => moveFallback(index, 1)} disabled={index === routing.fallbacks.length - 1} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Move down"><ChevronDown className="w-4 h-4" /></button>
+            </div>
+          ))}
+          {listProviders().filter(option => !routing.fallbacks.includes(option.id)).map(option => (
+            <label key={option.id} className="flex items-center gap-2 text-sm text-slate-400">
+              <input type="checkbox" checked={false} onChange={() => toggleFallback(option.id)} />
+              {option.label}
+            </label>
+          ))}
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleSaveRouting} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Save</button>
+            {routingMessage && <span className="text-sm text-slate-500">{routingMessage}</span>}
+          </div>
+
+          <h4 className="pt-4 border-t border-slate-100 text-sm font-bold text-slate-700 flex items-center gap-2"><Timer className="w-4 h-4 text-indigo-600" /> Requests (all providers)</h4>
+          <div className="flex gap-3">
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Timeout (seconds)
+              <input type="number" min={5} max={300} value={timeoutSeconds} onChange={(e) => setTimeoutSeconds(Number(e.target.value))} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Retries
+              <input type="number" min={0} max={5} value={maxRetries} onChange={(e) => setMaxRetries(Number(e.target.value))} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">Timeouts, rate limits (429) and server errors (5xx) are retried with growing pauses; a Retry-After from the server is respected. Local models may need a longer timeout.</p>
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleSaveRequests} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Save</button>
+            {requestMessage && <span className="text-sm text-slate-500">{requestMessage}</span>}
+          </div>
+
+          <h4 className="pt-4 border-t border-slate-100 text-sm font-bold text-slate-700 flex items-center gap-2"><Database className="w-4 h-4 text-indigo-600" /> Answer cache</h4>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={cacheSettings.enabled} onChange={(e) => setCacheSettings({ ...cacheSettings, enabled: e.target.checked })} />
+            Reuse answers to identical requests (also works offline)
+          </label>
+          <div className="flex gap-3">
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Keep for (days)
+              <input type="number" min={1} max={365} value={cacheSettings.ttlDays} onChange={(e) => setCacheSettings({ ...cacheSettings, ttlDays: Number(e.target.value) })} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Size limit (MB)
+              <input type="number" min={1} max={100} value={cacheSettings.maxMegabytes} onChange={(e) => setCacheSettings({ ...cacheSettings, maxMegabytes: Number(e.target.value) })} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+          </div>
+          {cacheStats && (
+            <p className="text-xs text-slate-500">
+              {cacheStats.entries} answer{cacheStats.entries === 1 ? '' : 's'} ({formatBytes(cacheStats.bytes)}), reused {cacheStats.hits} time{cacheStats.hits === 1 ? '' : 's'}
+              {cacheStats.oldest && `, oldest from ${new Date(cacheStats.oldest).toLocaleDateString()}`}.
+              {' '}This session: {cacheStats.session.hits} reused, {cacheStats.session.misses} asked fresh.
+            </p>
+          )}
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleSaveCache} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Save</button>
+            <button type="button" onClick={handleClearCache} disabled={!cacheStats?.entries} className="px-4 py-2 border border-slate-200 text-red-600 rounded-lg hover:bg-red-50 text-sm font-medium disabled:opacity-50">Clear Cache</button>
+            {cacheMessage && <span className="text-sm text-slate-500">{cacheMessage}</span>}
+          </div>
+
+          <h4 className="pt-4 border-t border-slate-100 text-sm font-bold text-slate-700 flex items-center gap-2"><FlaskConical className="w-4 h-4 text-indigo-600" /> Mock provider</h4>
+          <p className="text-xs text-slate-400">"Mock" in the provider toggle answers offline with fixed sample cards, analyses and chat replies, for demos and development. Set MOCK_AI=true in .env.local to start on it.</p>
+          <div className="flex gap-3">
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Latency (ms)
+              <input type="number" min={0} max={60000} step={100} value={mockSettings.latencyMs} onChange={(e) => setMockSettings({ ...mockSettings, latencyMs: Number(e.target.value) })} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+            <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+              Fail every Nth call
+              <input type="number" min={0} max={100} value={mockSettings.failEvery} onChange={(e) => setMockSettings({ ...mockSettings, failEvery: Number(e.target.value) })} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+            </label>
+          </div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">
+            Failure
+            <select value={mockSettings.failure} onChange={(e) => setMockSettings({ ...mockSettings, failure: e.target.value as MockFailure })} disabled={!mockSettings.failEvery} className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case disabled:opacity-50">
+              {Object.entries(MOCK_FAILURES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+            </select>
+          </label>
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleSaveMock} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Save</button>
+            {mockMessage && <span className="text-sm text-slate-500">{mockMessage}</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,16 @@
 
-import React, { useState, useEffect } from 'react';
-import { VocabularyItem, AiProvider, WritingEntry } from '../types';
-import { analyzeWriting, createChatSession } from '../services/geminiService';
-import { storage } from '../services/storage';
+import React, { useState, useMemo } from 'react';
+import { VocabularyItem, AiProvider, WritingEntry, WritingAnalysis, CardProvenance, AiAnswerRoute } from '../types';
+import { analyzeWriting, createChatSession, modelFor } from '../services/geminiService';
+import { generateId } from '../services/storage';
+import { libraryStore, useLibrary } from '../services/libraryStore';
+import { createWordMatcher } from '../services/lemmatizer';
 import { playTextToSpeech } from '../services/audioService';
+import { AiAbortedError, useAiCall } from '../services/aiRequest';
+import { providerFor } from '../services/aiRouting';
+import { DeckSelect } from './DeckSelect';
+import { StopButton } from './StopButton';
+import { AnsweredBy } from './AnsweredBy';
 import { BrainCircuit, Loader2, CheckCircle2, Bookmark, ArrowRight, RefreshCw, AlertCircle, BookOpen, Check, Volume2, Mic, MicOff, Save } from 'lucide-react';
 
 interface QuizRoomProps {
@@ -11,33 +18,26 @@ interface QuizRoomProps {
 }
 
 export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
-  const [library, setLibrary] = useState<VocabularyItem[]>([]);
+  const { vocabulary: library, decks } = useLibrary();
+  const savedWords = useMemo(() => createWordMatcher(library.map(i => i.word)), [library]);
+  // Quizzes can be limited to one deck
+  const [deckId, setDeckId] = useState('');
+  const quizDeck = decks.find(d => d.id === deckId);
+  const quizWords = quizDeck ? library.filter(w => w.deckIds?.includes(quizDeck.id)) : library;
   const [selectedWords, setSelectedWords] = useState<VocabularyItem[]>([]);
   const [scenario, setScenario] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const [feedback, setFeedback] = useState<any>(null);
-  const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
+  const aiCall = useAiCall();
+  const [feedback, setFeedback] = useState<WritingAnalysis | null>(null);
   const [isResultSaved, setIsResultSaved] = useState(false);
+  // Recorded on words saved from the feedback; its writingEntryId is also the id the result is saved under
+  const [feedbackSource, setFeedbackSource] = useState<CardProvenance | null>(null);
+  const [feedbackRoute, setFeedbackRoute] = useState<AiAnswerRoute | null>(null);
   
   // Voice Input State
   const [isListening, setIsListening] = useState(false);
 
-  useEffect(() => {
-    const loadLibrary = async () => {
-      try {
-        const saved = await storage.get<VocabularyItem[]>('memoralink_library');
-        if (saved) {
-          setLibrary(saved);
-          setSavedWords(new Set(saved.map((i: any) => i.word)));
-        }
-      } catch (e) {
-        console.error("Failed to load library for quiz", e);
-      }
-    };
-    loadLibrary();
-  }, []);
-
   const toggleWord = (word: VocabularyItem) => {
     if (selectedWords.find(w => w.word === word.word)) {
       setSelectedWords(selectedWords.filter(w => w.word !== word.word));
@@ -47,12 +47,10 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
   };
 
   const handleSaveWord = async (item: VocabularyItem) => {
-    const currentLibrary = (await storage.get<VocabularyItem[]>('memoralink_library')) || [];
-    
-    if (!currentLibrary.some(i => i.word === item.word)) {
-      const newLibrary = [item, ...currentLibrary];
-      await storage.set('memoralink_library', newLibrary);
-      setSavedWords(prev => new Set(prev).add(item.word));
+    try {
+      await libraryStore.saveWord(feedbackSource ? { ...item, source: feedbackSource } : item);
+    } catch (error: any) {
+      alert(`Could not save "${item.word}": ${error.message}`);
     }
   };
 
@@ -60,7 +58,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     if (!feedback || !scenario) return;
 
     const entry: WritingEntry = {
-      id: Date.now().toString(),
+      id: feedbackSource?.writingEntryId || generateId(),
       originalText: userInput,
       correction: feedback.correction,
       improvedVersion: feedback.improvedVersion,
@@ -69,10 +67,12 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
       date: new Date().toLocaleDateString()
     };
 
-    const currentLibrary = (await storage.get<WritingEntry[]>('memoralink_writing_library')) || [];
-    const newLibrary = [entry, ...currentLibrary];
-    await storage.set('memoralink_writing_library', newLibrary);
-    setIsResultSaved(true);
+    try {
+      await libraryStore.saveWritingEntry(entry);
+      setIsResultSaved(true);
+    } catch (error: any) {
+      alert(`Could not save this result: ${error.message}`);
+    }
   };
 
   const handleSpeak = (text: string) => {
@@ -114,11 +114,12 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
     setIsResultSaved(false);
 
     try {
-      const chat = createChatSession(aiProvider, "You are a language coach. Create a short, engaging roleplay scenario (max 30 words) where the user must use specific English words to solve a problem or express an idea.");
+      const chat = createChatSession(aiProvider, "You are a language coach. Create a short, engaging roleplay scenario (max 30 words) where the user must use specific English words to solve a problem or express an idea.", 'quiz');
       const wordsStr = selectedWords.map(w => w.word).join(', ');
-      const res = await chat.sendMessage(`Create a scenario that requires me to use these words: ${wordsStr}.`);
+      const res = await chat.sendMessage(`Create a scenario that requires me to use these words: ${wordsStr}.`, aiCall.start());
       setScenario(res);
     } catch (e: any) {
+      if (e instanceof AiAbortedError) return;
       alert(`Failed to start quiz: ${e.message}`);
     } finally {
       setLoading(false);
@@ -128,12 +129,20 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
   const handleSubmit = async () => {
     if (!userInput.trim()) return;
     setLoading(true);
+    setFeedbackRoute(null);
+    // The provider that actually answered, which may be a fallback
+    let answeredBy = providerFor('quiz', aiProvider);
     try {
       // Reuse Writing Lab logic for analysis
-      const res = await analyzeWriting(userInput, `Quiz Challenge Scenario: ${scenario}. Must use words: ${selectedWords.map(w => w.word).join(', ')}`, aiProvider);
+      const res = await analyzeWriting(userInput, `Quiz Challenge Scenario: ${scenario}. Must use words: ${selectedWords.map(w => w.word).join(', ')}`, aiProvider, {
+        ...aiCall.start(),
+        onRoute: next => { answeredBy = next.provider; setFeedbackRoute(next); }
+      }, 'quiz');
       setFeedback(res);
+      setFeedbackSource({ module: 'quiz', context: scenario || undefined, provider: answeredBy, model: modelFor(answeredBy, 'analysis'), createdAt: new Date().toISOString(), writingEntryId: generateId() });
       setIsResultSaved(false);
     } catch (e: any) {
+      if (e instanceof AiAbortedError) return;
       alert(`Analysis failed: ${e.message}`);
     } finally {
       setLoading(false);
@@ -145,7 +154,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
       <div className="space-y-2">
         <div className="flex items-center gap-2">
           <h2 className="text-2xl font-bold text-slate-900">Vocabulary Quiz</h2>
-          <span className="text-xs bg-indigo-50 text-indigo-600 px-2 py-1 rounded font-bold uppercase tracking-wide">Model: {aiProvider}</span>
+          <span className="text-xs bg-indigo-50 text-indigo-600 px-2 py-1 rounded font-bold uppercase tracking-wide">Model: {providerFor('quiz', aiProvider)}</span>
         </div>
         <p className="text-slate-600">Test your recall! Select words from your library and solve a generated scenario.</p>
       </div>
@@ -156,8 +165,16 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
             <h3 className="font-bold text-slate-800">Select up to 3 words to practice:</h3>
             <span className="text-xs text-indigo-600 font-bold bg-indigo-50 px-2 py-1 rounded-full">{selectedWords.length}/3 Selected</span>
           </div>
+
+          {decks.length > 0 && (
+            <DeckSelect decks={decks} value={deckId} onChange={(id) => { setDeckId(id); setSelectedWords([]); }} emptyLabel="Words from every deck" />
+          )}
           
-          {library.length === 0 ? (
+          {quizDeck && quizWords.length === 0 ? (
+            <div className="p-12 text-center bg-slate-50 rounded-2xl border border-dashed border-slate-300">
+               <p className="text-slate-500 font-medium">"{quizDeck.name}" has no cards yet.</p>
+            </div>
+          ) : library.length === 0 ? (
             <div className="p-12 text-center bg-slate-50 rounded-2xl border border-dashed border-slate-300">
                <AlertCircle className="w-12 h-12 mx-auto text-slate-300 mb-3" />
                <p className="text-slate-500 font-medium">Your library is empty.</p>
@@ -165,7 +182,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
             </div>
           ) : (
             <div className="flex flex-wrap gap-2 max-h-60 overflow-y-auto p-4 border rounded-xl bg-slate-50">
-              {library.map((w, idx) => {
+              {quizWords.map((w, idx) => {
                 const isSelected = selectedWords.find(sw => sw.word === w.word);
                 return (
                   <button 
@@ -180,14 +197,17 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
             </div>
           )}
 
-          <button 
-            disabled={selectedWords.length === 0 || loading}
-            onClick={startQuiz}
-            className="w-full py-4 bg-indigo-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 disabled:opacity-50 transition-all hover:bg-indigo-700 shadow-lg shadow-indigo-100"
-          >
-            {loading ? <Loader2 className="animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
-            Generate Scenario
-          </button>
+          <div className="flex gap-3">
+            <button 
+              disabled={selectedWords.length === 0 || loading}
+              onClick={startQuiz}
+              className="flex-1 py-4 bg-indigo-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 disabled:opacity-50 transition-all hover:bg-indigo-700 shadow-lg shadow-indigo-100"
+            >
+              {loading ? <Loader2 className="animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
+              Generate Scenario
+            </button>
+            {loading && <StopButton onStop={aiCall.stop} className="rounded-xl" />}
+          </div>
         </div>
       ) : (
         <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-500">
@@ -233,13 +253,14 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
                 >
                   {loading ? <Loader2 className="animate-spin" /> : "Check My Answer"}
                 </button>
+                {loading && <StopButton onStop={aiCall.stop} className="rounded-xl" />}
               </div>
            </div>
 
            {feedback && (
              <div className="space-y-6 animate-in fade-in duration-500">
                 <div className="flex justify-between items-center px-2">
-                  <h3 className="text-xl font-bold text-slate-800">Quiz Results</h3>
+                  <h3 className="text-xl font-bold text-slate-800 flex items-center gap-3">Quiz Results {feedbackRoute && <AnsweredBy route={feedbackRoute} />}</h3>
                   <button
                     onClick={handleSaveQuizResult}
                     disabled={isResultSaved}
@@ -280,7 +301,7 @@ export const QuizRoom: React.FC<QuizRoomProps> = ({ aiProvider }) => {
                       <BookOpen className="w-5 h-5" /> New Vocabulary to Master
                     </h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {feedback.keyVocabulary.map((wordItem: any, idx: number) => {
+                      {feedback.keyVocabulary.map((wordItem, idx) => {
                         const isSaved = savedWords.has(wordItem.word);
                         return (
                           <div key={idx} className="p-4 bg-slate-50 rounded-xl border border-slate-100 flex flex-col gap-3 group hover:border-indigo-200 transition-colors">
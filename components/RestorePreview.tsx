@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { RestorePlan, ConflictResolution } from '../services/backupService';
+import { X, PlusCircle, RefreshCw, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+export type RestoreMode = 'merge' | 'replace-all';
+
+interface RestorePreviewProps {
+  plan: RestorePlan;
+  onCancel: () => void;
+  onConfirm: (mode: RestoreMode, vocabResolutions: ConflictResolution[], writingResolutions: ConflictResolution[]) => void;
+}
+
+const RESOLUTIONS: { value: ConflictResolution, label: string }[] = [
+  { value: 'merge', label: 'Merge' },
+  { value: 'replace', label: 'Use Backup' },
+  { value: 'keep-newest', label: 'Keep Newest' },
+];
+
+const formatDate = (iso?: string) => iso ? new Date(iso).toLocaleString() : 'unknown';
+
+export const RestorePreview: React.FC<RestorePreviewProps> = ({ plan, onCancel, onConfirm }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [vocabResolutions, setVocabResolutions] = useState<ConflictResolution[]>(() => plan.vocabulary.changed.map(() => 'merge'));
+  const [writingResolutions, setWritingResolutions] = useState<ConflictResolution[]>(() => plan.writing.changed.map(() => 'merge'));
+
+  const setAll = (resolution: ConflictResolution) => {
+    setVocabResolutions(vocabResolutions.map(() => resolution));
+    setWritingResolutions(writingResolutions.map(() => resolution));
+  };
+
+  const conflictCount = plan.vocabulary.changed.length + plan.writing.changed.length;
+
+  const Stat = ({ icon: Icon, label, vocab, writing, className }: { icon: React.ElementType, label: string, vocab: number, writing: number, className: string }) => (
+    <div className={`p-4 rounded-xl border ${className}`}>
+      <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider mb-1"><Icon className="w-4 h-4" /> {label}</div>
+      <p className="text-2xl font-black">{vocab}</p>
+      <p className="text-xs opacity-70">words · {writing} writing logs</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-3xl max-h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Restore Preview</h3>
+            <p className="text-sm text-slate-500">Backup from {formatDate(plan.backup.date)}{plan.backup.profile ? ` · profile "${plan.backup.profile}"` : ''}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <Stat icon={PlusCircle} label="New" vocab={plan.vocabulary.added.length} writing={plan.writing.added.length} className="bg-emerald-50 border-emerald-100 text-emerald-800" />
+            <Stat icon={RefreshCw} label="Changed" vocab={plan.vocabulary.changed.length} writing={plan.writing.changed.length} className="bg-amber-50 border-amber-100 text-amber-800" />
+            <Stat icon={CheckCircle2} label="Identical" vocab={plan.vocabulary.identical.length} writing={plan.writing.identical.length} className="bg-slate-50 border-slate-200 text-slate-700" />
+          </div>
+          {plan.newDecks.length > 0 && (
+            <p className="text-sm text-slate-600">Adds {plan.newDecks.length} deck{plan.newDecks.length > 1 ? 's' : ''}: {plan.newDecks.map(d => d.name).join(', ')}</p>
+          )}
+
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            <button onClick={() => setMode('merge')} className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${mode === 'merge' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500'}`}>Merge into Library</button>
+            <button onClick={() => setMode('replace-all')} className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${mode === 'replace-all' ? 'bg-white shadow-sm text-red-600' : 'text-slate-500'}`}>Replace Entire Library</button>
+          </div>
+
+          {mode === 'replace-all' ? (
+            <div className="bg-red-50 border border-red-200 p-4 rounded-xl flex items-start gap-3 text-sm text-red-700">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <p>Your current library will be wiped and replaced by the backup. Words and writing logs that are not in the backup will be lost.</p>
+            </div>
+          ) : conflictCount > 0 && (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="font-bold text-slate-800">Conflicts ({conflictCount})</h4>
+                <div className="flex gap-1">
+                  {RESOLUTIONS.map(r => (
+                    <button key={r.value} onClick={() => setAll(r.value)} className="px-2 py-1 text-[10px] font-bold uppercase rounded border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200">All: {r.label}</button>
+                  ))}
+                </div>
+              </div>
+
+              {plan.vocabulary.changed.map(({ current, incoming }, i) => (
+                <div key={`v-${i}`} className="p-3 bg-slate-50 rounded-xl border border-slate-100 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900">{current.word}</p>
+                    <p className="text-xs text-slate-500 truncate">Library: {current.definition} · edited {formatDate(current.updatedAt)}</p>
+                    <p className="text-xs text-indigo-600 truncate">Backup: {incoming.definition} · edited {formatDate(incoming.updatedAt)}</p>
+                  </div>
+                  <select
+                    value={vocabResolutions[i]}
+                    onChange={(e) => setVocabResolutions(vocabResolutions.map((r, j) => j === i ? e.target.value as ConflictResolution : r))}
+                    className="p-2 text-sm rounded-lg border border-slate-300 bg-white"
+                  >
+                    {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                  </select>
+                </div>
+              ))}
+
+              {plan.writing.changed.map(({ current, incoming }, i) => (
+                <div key={`w-${i}`} className="p-3 bg-slate-50 rounded-xl border border-slate-100 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 truncate">Writing: {current.originalText.substring(0, 50)}</p>
+                    <p className="text-xs text-slate-500">Library edited {formatDate(current.updatedAt)} · Backup edited {formatDate(incoming.updatedAt)}</p>
+                  </div>
+                  <select
+                    value={writingResolutions[i]}
+                    onChange={(e) => setWritingResolutions(writingResolutions.map((r, j) => j === i ? e.target.value as ConflictResolution : r))}
+                    className="p-2 text-sm rounded-lg border border-slate-300 bg-white"
+                  >
+                    {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2 bg-slate-50">
+          <button onClick={onCancel} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-white text-sm font-medium">Cancel</button>
+          <button
+            onClick={() => onConfirm(mode, vocabResolutions, writingResolutions)}
+            className={`px-4 py-2 text-white rounded-lg text-sm font-bold ${mode === 'replace-all' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {mode === 'replace-all' ? 'Replace Library' : 'Apply Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { VocabularyItem, ReviewGrade } from '../types';
+import { libraryStore, useLibrary } from '../services/libraryStore';
+import { playTextToSpeech } from '../services/audioService';
+import { getDueItems, scheduleReview, previewInterval } from '../services/srsService';
+import { hasImage } from '../services/imageService';
+import { CardImage } from './CardImage';
+import { DeckSelect } from './DeckSelect';
+import { Loader2, Volume2, Eye, RotateCcw, CheckCircle2, Layers, Image as ImageIcon } from 'lucide-react';
+
+const GRADES: { grade: ReviewGrade, label: string, className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100' },
+];
+
+export const ReviewSession: React.FC = () => {
+  const { vocabulary, decks, isLoaded } = useLibrary();
+  const [deckId, setDeckId] = useState('');
+  // The queue holds card ids, so cards edited or deleted elsewhere show their latest version or drop out
+  const [queueIds, setQueueIds] = useState<string[] | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const cardsById = useMemo(() => new Map(vocabulary.map(item => [item.id!, item])), [vocabulary]);
+  const queue = useMemo(() => (queueIds || []).map(id => cardsById.get(id)).filter((item): item is VocabularyItem => !!item), [queueIds, cardsById]);
+
+  // The due list is taken once per session; grading a card doesn't reshuffle it
+  useEffect(() => {
+    if (isLoaded && queueIds === null) loadQueue();
+  }, [isLoaded]);
+
+  // Reviews can be limited to the cards of one deck
+  const loadQueue = (fromDeckId: string = deckId) => {
+    const { vocabulary: library, decks: allDecks } = libraryStore.getState();
+    const deck = allDecks.find(d => d.id === fromDeckId);
+    const candidates = deck ? library.filter(item => item.deckIds?.includes(deck.id)) : library;
+    setQueueIds(getDueItems(candidates).map(item => item.id!));
+    setShowAnswer(false);
+    setReviewedCount(0);
+  };
+
+  const currentCard = queue[0];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    try {
+      // Scheduled from the stored card, in case another tab reviewed it meanwhile
+      await libraryStore.updateWord(currentCard.id!, item => scheduleReview(item, grade));
+    } catch (error: any) {
+      alert(`Could not save this review: ${error.message}`);
+      return;
+    }
+
+    // Forgotten cards go to the back of the queue and come up again this session
+    const id = currentCard.id!;
+    setQueueIds(prev => (prev || []).filter(queued => queued !== id).concat(grade === 'again' ? [id] : []));
+    setReviewedCount(prev => prev + 1);
+    setShowAnswer(false);
+  };
+
+  const handleSpeak = (text: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    playTextToSpeech(text);
+  };
+
+  if (queueIds === null) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        <span className="ml-2 text-slate-600">Loading Reviews...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 md:p-8 space-y-6 pb-24 md:pb-8">
+      <div className="flex justify-between items-start">
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold text-slate-900">Daily Review</h2>
+          <p className="text-slate-600">Recall each word before revealing the answer, then grade yourself honestly.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-indigo-600 font-bold bg-indigo-50 px-2 py-1 rounded-full">{queue.length} Due</span>
+          <span className="text-xs text-emerald-600 font-bold bg-emerald-50 px-2 py-1 rounded-full">{reviewedCount} Done</span>
+        </div>
+      </div>
+
+      {decks.length > 0 && (
+        <DeckSelect decks={decks} value={deckId} onChange={(id) => { setDeckId(id); loadQueue(id); }} emptyLabel="All decks" />
+      )}
+
+      {!currentCard ? (
+        <div className="p-12 text-center bg-white rounded-2xl border border-slate-200 shadow-sm space-y-4">
+          <CheckCircle2 className="w-12 h-12 mx-auto text-emerald-400" />
+          <div>
+            <p className="text-slate-700 font-bold text-lg">All caught up!</p>
+            <p className="text-sm text-slate-400 mt-1">No cards are due right now. Come back later or add new words from the Vocabulary Builder.</p>
+          </div>
+          <button onClick={() => loadQueue()} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium inline-flex items-center gap-2">
+            <RotateCcw className="w-4 h-4" /> Check Again
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-md border border-slate-200 overflow-hidden animate-in fade-in duration-300">
+          <div className="w-full aspect-video bg-slate-100 flex items-center justify-center">
+            {hasImage(currentCard) ? (
+              <CardImage item={currentCard} variant="full" className="w-full h-full object-cover" />
+            ) : (
+              <ImageIcon className="w-12 h-12 text-slate-300" />
+            )}
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div className="text-center space-y-2">
+              <h3 className="text-4xl font-black text-slate-900">{currentCard.word}</h3>
+              <div className="flex items-center justify-center gap-2">
+                <span className="text-slate-500 font-mono">{currentCard.phonetic}</span>
+                <button onClick={(e) => handleSpeak(currentCard.word, e)} className="p-1.5 bg-slate-100 rounded-full text-indigo-600 hover:bg-indigo-100">
+                  <Volume2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {showAnswer ? (
+              <div className="space-y-4 animate-in fade-in duration-300">
+                <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
+                  <span className="text-xs font-bold text-amber-700 uppercase tracking-wider block mb-1">🧠 Memory Hook</span>
+                  <p className="text-amber-900 italic">"{currentCard.mnemonic}"</p>
+                </div>
+                <div>
+                  <p className="font-medium text-slate-800">{currentCard.definition}</p>
+                  <p className="text-slate-500 text-sm mt-1">{currentCard.chineseTranslation}</p>
+                </div>
+                <p className="text-indigo-900 bg-indigo-50 p-3 rounded text-sm border-l-4 border-indigo-400 italic">"{currentCard.exampleSentence}"</p>
+
+                <div className="grid grid-cols-4 gap-2 pt-2">
+                  {GRADES.map(({ grade, label, className }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      className={`py-3 rounded-xl border font-bold text-sm flex flex-col items-center transition-colors ${className}`}
+                    >
+                      {label}
+                      <span className="text-[10px] font-medium opacity-70">{previewInterval(currentCard, grade)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowAnswer(true)}
+                className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors"
+              >
+                <Eye className="w-5 h-5" /> Show Answer
+              </button>
+            )}
+          </div>
+
+          <div className="px-6 py-3 bg-slate-50 border-t border-slate-100 flex items-center gap-2 text-xs text-slate-400">
+            <Layers className="w-3 h-3" />
+            <span>{currentCard.review ? `Interval ${currentCard.review.interval}d · Ease ${currentCard.review.ease} · Lapses ${currentCard.review.lapses}` : 'New card'}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Square } from 'lucide-react';
+
+interface StopButtonProps {
+  onStop: () => void;
+  className?: string;
+}
+
+// Shown next to a spinner while an AI call is running
+export const StopButton: React.FC<StopButtonProps> = ({ onStop, className = '' }) => (
+  <button
+    type="button"
+    onClick={onStop}
+    title="Stop waiting for the AI"
+    className={`px-3 py-2 border border-slate-200 bg-white text-slate-600 hover:text-red-600 hover:border-red-200 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors ${className}`}
+  >
+    <Square className="w-3.5 h-3.5 fill-current" /> Stop
+  </button>
+);
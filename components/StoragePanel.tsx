@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { trashStore } from '../services/storage';
+import { getStorageUsage, requestPersistentStorage, removeImagesFromOldCards, pruneWritingLogs, removeOrphanedImages, formatBytes, StorageUsage } from '../services/storageUsageService';
+import { HardDrive, ShieldCheck, Image as ImageIcon, FileText, Trash2, Loader2, Sparkles } from 'lucide-react';
+
+const AGE_OPTIONS = [30, 90, 180, 365];
+
+export const StoragePanel: React.FC = () => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [imageAge, setImageAge] = useState(180);
+  const [writingAge, setWritingAge] = useState(365);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (e) {
+      console.error("Failed to measure storage", e);
+    }
+  };
+
+  // Run a cleanup action, then re-measure
+  const run = async (name: string, action: () => Promise<string>) => {
+    setBusyAction(name);
+    setMessage(null);
+    try {
+      setMessage(await action());
+      await refresh();
+    } catch (e: any) {
+      alert(`Cleanup failed: ${e.message}`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    setMessage(granted ? "Storage is now persistent: the browser won't clear it to make room." : "The browser declined. Installing the app or bookmarking it can help it qualify.");
+    await refresh();
+  };
+
+  if (!usage) {
+    return <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 animate-spin text-indigo-600" /></div>;
+  }
+
+  const total = usage.categories.reduce((sum, c) => sum + c.bytes, 0);
+  const usedPercent = usage.usage && usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : null;
+  const busy = busyAction !== null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl p-5 border shadow-sm space-y-4">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h3 className="font-bold text-slate-800 flex items-center gap-2"><HardDrive className="w-4 h-4 text-indigo-600" /> Browser Storage</h3>
+            <p className="text-sm text-slate-500">
+              {usage.usage !== undefined && usage.quota !== undefined
+                ? `${formatBytes(usage.usage)} used of ${formatBytes(usage.quota)} available`
+                : 'This browser does not report its storage quota.'}
+            </p>
+          </div>
+          {usage.persisted ? (
+            <span className="px-3 py-1 bg-emerald-50 text-emerald-700 rounded-full text-xs font-bold border border-emerald-200 flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> Persistent</span>
+          ) : usage.persisted === false && (
+            <button onClick={handlePersist} className="px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> Keep Data Persistent</button>
+          )}
+        </div>
+        {usedPercent !== null && (
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${usedPercent}%` }} />
+          </div>
+        )}
+
+        <div className="space-y-2 pt-2">
+          {usage.categories.map(category => (
+            <div key={category.key} className="flex items-center gap-3 text-sm">
+              <span className="w-40 text-slate-600">{category.label}</span>
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-slate-400" style={{ width: `${total ? (category.bytes / total) * 100 : 0}%` }} />
+              </div>
+              <span className="w-20 text-right text-slate-500 font-mono text-xs">{formatBytes(category.bytes)}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400">Sizes are estimates for the current profile.</p>
+      </div>
+
+      <div className="bg-white rounded-xl p-5 border shadow-sm space-y-4">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Sparkles className="w-4 h-4 text-indigo-600" /> Cleanup</h3>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-2 justify-between">
+          <div className="text-sm text-slate-600 flex items-center gap-2">
+            <ImageIcon className="w-4 h-4 text-slate-400" /> Remove images from cards not reviewed in
+            <select value={imageAge} onChange={(e) => setImageAge(Number(e.target.value))} className="p-1 border rounded text-sm">
+              {AGE_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+            </select>
+          </div>
+          <button
+            disabled={busy}
+            onClick={() => confirm(`Remove images from cards not reviewed in ${imageAge} days? The cards themselves are kept.`) && run('images', async () => {
+              const { cards, bytes } = await removeImagesFromOldCards(imageAge);
+              return `Removed images from ${cards} cards (${formatBytes(bytes)}).`;
+            })}
+            className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-1 disabled:opacity-50"
+          >
+            {busyAction === 'images' && <Loader2 className="w-3 h-3 animate-spin" />} Remove Images
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-2 justify-between">
+          <div className="text-sm text-slate-600 flex items-center gap-2">
+            <FileText className="w-4 h-4 text-slate-400" /> Delete writing logs older than
+            <select value={writingAge} onChange={(e) => setWritingAge(Number(e.target.value))} className="p-1 border rounded text-sm">
+              {AGE_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+            </select>
+          </div>
+          <button
+            disabled={busy}
+            onClick={() => confirm(`Permanently delete writing logs older than ${writingAge} days?`) && run('writing', async () => {
+              const removed = await pruneWritingLogs(writingAge);
+              return `Deleted ${removed} writing logs.`;
+            })}
+            className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 flex items-center gap-1 disabled:opacity-50"
+          >
+            {busyAction === 'writing' && <Loader2 className="w-3 h-3 animate-spin" />} Prune Logs
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-2 justify-between">
+          <div className="text-sm text-slate-600 flex items-center gap-2"><Trash2 className="w-4 h-4 text-slate-400" /> Empty the trash and remove unused images</div>
+          <button
+            disabled={busy}
+            onClick={() => confirm('Permanently delete everything in the trash?') && run('trash', async () => {
+              await trashStore.clear();
+              const orphans = await removeOrphanedImages();
+              return `Trash emptied${orphans ? ` and ${orphans} unused images removed` : ''}.`;
+            })}
+            className="px-3 py-1.5 bg-red-50 text-red-600 rounded-lg text-xs font-bold border border-red-200 flex items-center gap-1 disabled:opacity-50"
+          >
+            {busyAction === 'trash' && <Loader2 className="w-3 h-3 animate-spin" />} Free Space
+          </button>
+        </div>
+
+        {message && <p className="text-sm text-emerald-700">{message}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { syncService, SyncConfig } from '../services/syncService';
+import { X, RefreshCw, Loader2, AlertCircle, CloudOff } from 'lucide-react';
+
+interface SyncSettingsProps {
+  onClose: () => void;
+}
+
+export const SyncSettings: React.FC<SyncSettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<SyncConfig | null>(null);
+  const [serverUrl, setServerUrl] = useState('http://localhost:8787');
+  const [token, setToken] = useState('');
+  const [autoSync, setAutoSync] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    syncService.getConfig().then(saved => {
+      if (!saved) return;
+      setConfig(saved);
+      setServerUrl(saved.serverUrl);
+      setToken(saved.token);
+      setAutoSync(saved.autoSync);
+    });
+  }, []);
+
+  const handleSaveAndSync = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await syncService.configure(serverUrl, token, autoSync);
+      const result = await syncService.sync();
+      setConfig(await syncService.getConfig());
+      setMessage(`Sent ${result.pushed} and received ${result.pulled} changes${result.conflicts ? `, merged ${result.conflicts} conflicting edits` : ''}.`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm("Stop syncing this profile? Your words stay on this device and on the server.")) return;
+    await syncService.disconnect();
+    setConfig(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2"><RefreshCw className="w-5 h-5 text-indigo-600" /> Device Sync</h3>
+            <p className="text-sm text-slate-500">Keep this profile in step with your other devices through your own sync server.</p>
+          </div>
+          <button onClick={onClose} disabled={isSyncing} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <form onSubmit={handleSaveAndSync} className="p-6 space-y-3">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Server URL</label>
+          <input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder="http://localhost:8787" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-mono" />
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide">Sync Token</label>
+          <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Use the same token on every device" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={autoSync} onChange={(e) => setAutoSync(e.target.checked)} className="accent-indigo-600" />
+            Sync automatically when the app opens and every few minutes
+          </label>
+          <p className="text-xs text-slate-400">Images stay on the device they were added on.</p>
+
+          {config?.lastSyncedAt && <p className="text-xs text-slate-500">Last synced {new Date(config.lastSyncedAt).toLocaleString()}</p>}
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 text-sm">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+          <div className="flex gap-2 pt-2">
+            {config && (
+              <button type="button" onClick={handleDisconnect} disabled={isSyncing} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium flex items-center gap-2">
+                <CloudOff className="w-4 h-4" /> Disconnect
+              </button>
+            )}
+            <button type="submit" disabled={isSyncing || !serverUrl || !token} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg flex items-center justify-center gap-2 text-sm disabled:opacity-50">
+              {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              {config ? 'Save & Sync Now' : 'Connect & Sync'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
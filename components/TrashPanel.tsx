@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { TrashEntry, LibrarySnapshot, VocabularyItem, WritingEntry } from '../types';
+import { trashStore, snapshotStore, onStoreChange, TRASH_RETENTION_DAYS } from '../services/storage';
+import { libraryStore } from '../services/libraryStore';
+import { ArchiveRestore, Trash2, History, Loader2 } from 'lucide-react';
+
+interface TrashPanelProps {
+  onRestoreSnapshot: (snapshot: LibrarySnapshot) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (entry: TrashEntry) => {
+  const elapsed = Date.now() - new Date(entry.deletedAt).getTime();
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+const describe = (entry: TrashEntry) => {
+  if (entry.kind === 'vocabulary') {
+    const item = entry.record as VocabularyItem;
+    return { title: item.word, subtitle: item.definition };
+  }
+  const log = entry.record as WritingEntry;
+  return { title: log.context || 'Writing log', subtitle: log.originalText.substring(0, 80) };
+};
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ onRestoreSnapshot }) => {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [snapshots, setSnapshots] = useState<LibrarySnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    load();
+    // Deletes in other views and tabs show up here without a reload
+    return onStoreChange(categories => {
+      if (categories.includes('trash') || categories.includes('snapshots')) load();
+    });
+  }, []);
+
+  const load = async () => {
+    try {
+      setEntries(await trashStore.getAll());
+      setSnapshots(await snapshotStore.getAll());
+    } catch (e) {
+      console.error("Failed to load trash", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    await libraryStore.restoreFromTrash(id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!confirm('Delete this item forever?')) return;
+    await trashStore.purge(id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${entries.length} items in the trash? This cannot be undone.`)) return;
+    await trashStore.clear();
+    setEntries([]);
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    if (!confirm('Delete this snapshot?')) return;
+    await snapshotStore.delete(id);
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+  };
+
+  if (isLoading) {
+    return <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 animate-spin text-indigo-600" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {snapshots.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wide flex items-center gap-2"><History className="w-4 h-4" /> Snapshots</h3>
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className="bg-white rounded-xl p-4 border shadow-sm flex justify-between items-center gap-4">
+              <div>
+                <p className="text-sm font-medium text-slate-800">{snapshot.reason}</p>
+                <p className="text-xs text-slate-500">{new Date(snapshot.createdAt).toLocaleString()} · {snapshot.vocabulary.length} words · {snapshot.writingLogs.length} writing logs</p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onRestoreSnapshot(snapshot)} className="px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-1"><ArchiveRestore className="w-4 h-4" /> Restore</button>
+                <button onClick={() => handleDeleteSnapshot(snapshot.id)} className="p-1.5 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wide">Deleted items</h3>
+          {entries.length > 0 && (
+            <button onClick={handleEmptyTrash} className="px-3 py-1.5 bg-red-50 text-red-600 rounded-lg text-xs font-bold border border-red-200 hover:bg-red-100">Empty Trash</button>
+          )}
+        </div>
+        <p className="text-xs text-slate-400">Items are deleted forever {TRASH_RETENTION_DAYS} days after they were moved here.</p>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-10 text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-300">
+            <p>Trash is empty.</p>
+          </div>
+        ) : entries.map(entry => {
+          const { title, subtitle } = describe(entry);
+          return (
+            <div key={entry.id} className="bg-white rounded-xl p-4 border shadow-sm flex justify-between items-center gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold bg-slate-100 px-2 py-0.5 rounded text-slate-600 uppercase">{entry.kind === 'vocabulary' ? 'Word' : 'Writing'}</span>
+                  <p className="text-sm font-bold text-slate-800 truncate">{title}</p>
+                </div>
+                <p className="text-xs text-slate-500 truncate mt-1">{subtitle}</p>
+                <p className="text-[10px] text-slate-400 mt-1">Deleted {new Date(entry.deletedAt).toLocaleDateString()} · {daysLeft(entry)} days left</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => handleRestore(entry.id)} className="px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold border border-indigo-200 flex items-center gap-1"><ArchiveRestore className="w-4 h-4" /> Restore</button>
+                <button onClick={() => handlePurge(entry.id)} className="p-1.5 text-slate-400 hover:text-red-600" title="Delete forever"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  // Restart the timer whenever a new action replaces the toast
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div className="fixed bottom-24 md:bottom-8 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white pl-4 pr-2 py-2 rounded-full shadow-lg flex items-center gap-3 text-sm animate-in fade-in slide-in-from-bottom-2">
+      <span>{message}</span>
+      <button onClick={onUndo} className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 font-bold text-indigo-300 flex items-center gap-1">
+        <Undo2 className="w-4 h-4" /> Undo
+      </button>
+      <button onClick={onDismiss} className="p-1 text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
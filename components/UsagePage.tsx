@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AiFeature, ModelPrice } from '../types';
+import { profileService } from '../services/profileService';
+import { getUsageReport, getPrices, getBudget, configureUsage, clearUsage, DEFAULT_PRICES, FEATURE_LABELS, UsageReport, UsageTotals, UsageRow } from '../services/usageService';
+import { Loader2, Gauge, Wallet, Table2, Trash2, AlertCircle } from 'lucide-react';
+
+const formatUsd = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// Blank inputs mean "no budget"
+const parseUsd = (value: string): number | undefined => {
+  const usd = parseFloat(value);
+  return Number.isFinite(usd) && usd > 0 ? usd : undefined;
+};
+
+const SummaryCard: React.FC<{ title: string, totals: UsageTotals, limit?: number }> = ({ title, totals, limit }) => {
+  const percent = limit ? Math.min(100, (totals.cost / limit) * 100) : null;
+  return (
+    <div className="bg-white rounded-xl p-5 border shadow-sm space-y-2">
+      <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">{title}</p>
+      <p className="text-3xl font-bold text-slate-900">{formatUsd(totals.cost)}</p>
+      <p className="text-sm text-slate-500">
+        {totals.calls} call{totals.calls === 1 ? '' : 's'} · {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+      </p>
+      {percent !== null && (
+        <>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full ${percent >= 100 ? 'bg-red-500' : percent > 80 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-slate-400">{formatUsd(totals.cost)} of {formatUsd(limit!)} budget</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+const UsageTable: React.FC<{ title: string, rows: UsageRow[], label?: (key: string) => string }> = ({ title, rows, label = key => key }) => (
+  <div className="bg-white rounded-xl p-5 border shadow-sm space-y-3">
+    <h3 className="font-bold text-slate-800">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-slate-400">No AI calls yet.</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-400 uppercase tracking-wide">
+            <th className="font-medium pb-2"></th>
+            <th className="font-medium pb-2 text-right">Calls</th>
+            <th className="font-medium pb-2 text-right">Tokens in</th>
+            <th className="font-medium pb-2 text-right">Tokens out</th>
+            <th className="font-medium pb-2 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-slate-100">
+              <td className="py-1.5 text-slate-700">{label(row.key)}</td>
+              <td className="py-1.5 text-right text-slate-500">{row.calls}</td>
+              <td className="py-1.5 text-right text-slate-500 font-mono text-xs">{formatTokens(row.inputTokens)}</td>
+              <td className="py-1.5 text-right text-slate-500 font-mono text-xs">{formatTokens(row.outputTokens)}</td>
+              <td className="py-1.5 text-right text-slate-700 font-medium" title={row.unpriced ? `${row.unpriced} call(s) to models without a price are not counted` : undefined}>
+                {formatUsd(row.cost)}{row.unpriced > 0 && '*'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const UsagePage: React.FC = () => {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dailyBudget, setDailyBudget] = useState(() => getBudget().dailyUsd?.toString() || '');
+  const [monthlyBudget, setMonthlyBudget] = useState(() => getBudget().monthlyUsd?.toString() || '');
+  // Edited as text so a half-typed number isn't rewritten under the cursor
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, { input: string, output: string }>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await getUsageReport();
+      const prices = getPrices();
+      setPriceDrafts(Object.fromEntries(next.models.map(model => [model, {
+        input: prices[model]?.inputPerMillion.toString() ?? '',
+        output: prices[model]?.outputPerMillion.toString() ?? ''
+      }])));
+      setReport(next);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const handleSaveSettings = async () => {
+    setMessage(null);
+    const aiBudget = { dailyUsd: parseUsd(dailyBudget), monthlyUsd: parseUsd(monthlyBudget) };
+    // Only prices that differ from the built-in ones are stored, so later updates to those still apply
+    const aiPrices: Record<string, ModelPrice> = {};
+    for (const [model, draft] of Object.entries(priceDrafts)) {
+      const input = parseFloat(draft.input);
+      const output = parseFloat(draft.output);
+      if (!Number.isFinite(input) || !Number.isFinite(output)) continue;
+      const builtIn = DEFAULT_PRICES[model];
+      if (builtIn && builtIn.inputPerMillion === input && builtIn.outputPerMillion === output) continue;
+      aiPrices[model] = { inputPerMillion: input, outputPerMillion: output };
+    }
+    try {
+      await profileService.updateSettings({ aiBudget, aiPrices });
+      configureUsage({ prices: aiPrices, budget: aiBudget });
+      setMessage('Saved.');
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Delete the whole AI usage log for this profile?")) return;
+    await clearUsage();
+    await refresh();
+  };
+
+  if (error) {
+    return (
+      <div className="max-w-5xl mx-auto p-6 md:p-10 flex items-center gap-2 text-red-600">
+        <AlertCircle className="w-5 h-5" /> {error}
+      </div>
+    );
+  }
+
+  if (!report) {
+    return <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-indigo-600" /></div>;
+  }
+
+  const budget = getBudget();
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 md:p-10 space-y-6 pb-24 md:pb-8">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2"><Gauge className="w-6 h-6 text-indigo-600" /> AI Usage</h2>
+        <p className="text-slate-600">Tokens reported by the providers for every AI call in this profile. Costs are estimates from the price table below.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <SummaryCard title="Today" totals={report.today} limit={budget.dailyUsd} />
+        <SummaryCard title="This month" totals={report.month} limit={budget.monthlyUsd} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <UsageTable title="This month by feature" rows={report.byFeature} label={key => FEATURE_LABELS[key as AiFeature] || key} />
+        <UsageTable title="This month by model" rows={report.byModel} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <UsageTable title="Last 30 days" rows={report.daily} label={key => new Date(`${key}T00:00`).toLocaleDateString()} />
+        <UsageTable title="Monthly" rows={report.monthly} label={key => new Date(`${key}-01T00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long' })} />
+      </div>
+
+      <div className="bg-white rounded-xl p-5 border shadow-sm space-y-4">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Wallet className="w-4 h-4 text-indigo-600" /> Budgets</h3>
+        <p className="text-sm text-slate-500">Soft limits: before a call that would likely go over, you are asked whether to continue (once per day or month).</p>
+        <div className="flex flex-col md:flex-row gap-3">
+          <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+            Daily (USD)
+            <input type="number" min={0} step="0.01" value={dailyBudget} onChange={(e) => setDailyBudget(e.target.value)} placeholder="No limit" className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+          </label>
+          <label className="flex-1 text-xs font-bold text-slate-500 uppercase tracking-wide">
+            Monthly (USD)
+            <input type="number" min={0} step="0.01" value={monthlyBudget} onChange={(e) => setMonthlyBudget(e.target.value)} placeholder="No limit" className="mt-1 w-full p-2 rounded-lg border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-normal normal-case" />
+          </label>
+        </div>
+
+        <h3 className="pt-4 border-t border-slate-100 font-bold text-slate-800 flex items-center gap-2"><Table2 className="w-4 h-4 text-indigo-600" /> Prices (USD per million tokens)</h3>
+        <p className="text-sm text-slate-500">Built-in prices are list prices at the time of writing; check your provider's pricing page. Models without a price (e.g. local ones) count as free and are marked *.</p>
+        <div className="space-y-2">
+          {Object.entries(priceDrafts).map(([model, draft]) => (
+            <div key={model} className="flex items-center gap-3 text-sm">
+              <span className="flex-1 font-mono text-xs text-slate-700 truncate">{model}</span>
+              <input type="number" min={0} step="0.01" value={draft.input} onChange={(e) => setPriceDrafts({ ...priceDrafts, [model]: { ...draft, input: e.target.value } })} placeholder="Input" className="w-24 p-1.5 rounded border border-slate-300 text-sm" />
+              <input type="number" min={0} step="0.01" value={draft.output} onChange={(e) => setPriceDrafts({ ...priceDrafts, [model]: { ...draft, output: e.target.value } })} placeholder="Output" className="w-24 p-1.5 rounded border border-slate-300 text-sm" />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 pt-2">
+          <button onClick={handleSaveSettings} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold">Save Budgets & Prices</button>
+          {message && <span className="text-sm text-slate-500">{message}</span>}
+          <button onClick={handleClear} className="ml-auto px-3 py-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg text-sm font-medium flex items-center gap-2">
+            <Trash2 className="w-4 h-4" /> Clear Log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { vaultService, MIN_PASSPHRASE_LENGTH } from '../services/vaultService';
+import { X, ShieldCheck, ShieldOff, Lock, Loader2, KeyRound, AlertCircle } from 'lucide-react';
+
+interface VaultSettingsProps {
+  onClose: () => void;
+  onLock: () => void;
+}
+
+type VaultAction = 'enable' | 'change' | 'disable';
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ onClose, onLock }) => {
+  const [isEnabled, setIsEnabled] = useState(vaultService.isEnabled());
+  const [action, setAction] = useState<VaultAction>(isEnabled ? 'change' : 'enable');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const needsNew = action !== 'disable';
+  const needsCurrent = action !== 'enable';
+
+  const reset = (nextAction: VaultAction) => {
+    setAction(nextAction);
+    setCurrent('');
+    setNext('');
+    setConfirmNext('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsNew && next !== confirmNext) {
+      setError("The new passphrases don't match.");
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      if (action === 'enable') {
+        await vaultService.enable(next);
+        setIsEnabled(true);
+        setMessage("Encryption is on. Your words and writing logs are now encrypted on this device.");
+        reset('change');
+      } else if (action === 'change') {
+        await vaultService.changePassphrase(current, next);
+        setMessage("Passphrase changed and library re-encrypted.");
+        reset('change');
+      } else {
+        await vaultService.disable(current);
+        setIsEnabled(false);
+        setMessage("Encryption is off. Your library is stored as plain data again.");
+        reset('enable');
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              {isEnabled ? <ShieldCheck className="w-5 h-5 text-emerald-600" /> : <ShieldOff className="w-5 h-5 text-slate-400" />}
+              Library Encryption
+            </h3>
+            <p className="text-sm text-slate-500">
+              {isEnabled ? 'On. A passphrase is needed to open this profile.' : 'Off. Encrypt this profile\'s words and writing logs with a passphrase.'}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isEnabled && (
+            <div className="flex gap-2">
+              <button onClick={() => reset('change')} className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border ${action === 'change' ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-500'}`}>Change Passphrase</button>
+              <button onClick={() => reset('disable')} className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border ${action === 'disable' ? 'bg-red-50 border-red-200 text-red-600' : 'border-slate-200 text-slate-500'}`}>Turn Off</button>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {needsCurrent && (
+              <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current passphrase" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+            )}
+            {needsNew && (
+              <>
+                <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`} className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+                <input type="password" value={confirmNext} onChange={(e) => setConfirmNext(e.target.value)} placeholder="Repeat new passphrase" className="w-full p-3 rounded-xl border border-slate-300 bg-slate-50 outline-none focus:ring-2 focus:ring-indigo-500 text-sm" />
+              </>
+            )}
+
+            {action === 'enable' && (
+              <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded-lg border border-amber-100">
+                There is no way to recover a forgotten passphrase. Images are not encrypted.
+              </p>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <AlertCircle className="w-4 h-4" />
+                <span>{error}</span>
+              </div>
+            )}
+            {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+            <button
+              type="submit"
+              disabled={isWorking || (needsCurrent && !current) || (needsNew && !next)}
+              className={`w-full py-3 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50 ${action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            >
+              {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+              {action === 'enable' ? 'Encrypt Library' : action === 'change' ? 'Change Passphrase' : 'Decrypt and Turn Off'}
+            </button>
+          </form>
+
+          {isEnabled && (
+            <button onClick={onLock} disabled={isWorking} className="w-full py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium flex items-center justify-center gap-2">
+              <Lock className="w-4 h-4" /> Lock Now
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { vaultService } from '../services/vaultService';
+import { WrongPassphraseError } from '../services/cryptoService';
+import { ShieldCheck, ArrowRight, AlertCircle, Loader2 } from 'lucide-react';
+
+interface VaultUnlockProps {
+  profileName: string;
+  onUnlocked: () => void;
+  onSwitchProfile: () => void;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ profileName, onUnlocked, onSwitchProfile }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      await vaultService.unlock(passphrase);
+      setPassphrase('');
+      onUnlocked();
+    } catch (err: any) {
+      setError(err instanceof WrongPassphraseError ? err.message : `Could not unlock: ${err.message}`);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200">
+        <div className="bg-slate-900 p-8 text-center">
+          <div className="w-16 h-16 bg-white/10 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <ShieldCheck className="w-8 h-8 text-emerald-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-white">Library Locked</h1>
+          <p className="text-slate-400 text-sm mt-2">{profileName}'s library is encrypted on this device.</p>
+        </div>
+
+        <div className="p-8">
+          <form onSubmit={handleUnlock} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Vault Passphrase</label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => {
+                  setPassphrase(e.target.value);
+                  if (error) setError(null);
+                }}
+                placeholder="Enter passphrase..."
+                className={`w-full p-3 rounded-xl border ${error ? 'border-red-300 bg-red-50 focus:ring-red-500' : 'border-slate-300 bg-slate-50 focus:ring-indigo-500'} outline-none focus:ring-2 transition-all`}
+                autoFocus
+              />
+              {error && (
+                <div className="flex items-center gap-2 mt-2 text-red-600 text-sm">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>{error}</span>
+                </div>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isUnlocking || !passphrase}
+              className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <>Unlock Library <ArrowRight className="w-4 h-4" /></>}
+            </button>
+          </form>
+          <button onClick={onSwitchProfile} className="w-full text-center text-xs text-slate-400 hover:text-slate-600 mt-6">
+            Switch profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,16 @@
 
-import React, { useState, useEffect } from 'react';
-import { TOPICS, VocabularyItem, AiProvider } from '../types';
-import { generateVocabularyByTopic, generateVocabularyFromList } from '../services/geminiService';
-import { storage } from '../services/storage';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TOPICS, VocabularyItem, AiProvider, DECK_LEVELS, CardProvenance, AiAnswerRoute } from '../types';
+import { generateVocabularyByTopic, generateVocabularyFromList, modelFor } from '../services/geminiService';
+import { libraryStore, useLibrary } from '../services/libraryStore';
+import { createWordMatcher } from '../services/lemmatizer';
 import { playTextToSpeech } from '../services/audioService';
+import { AiAbortedError, useAiCall } from '../services/aiRequest';
+import { providerFor } from '../services/aiRouting';
+import { DeckSelect } from './DeckSelect';
+import { StopButton } from './StopButton';
+import { CachedNotice } from './CachedNotice';
+import { AnsweredBy } from './AnsweredBy';
 import { Loader2, Eye, EyeOff, BrainCircuit, Bookmark, Check, Volume2, Upload, Zap, RefreshCw } from 'lucide-react';
 
 interface VocabularyBuilderProps {
@@ -31,35 +38,50 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
   });
   
   const [loading, setLoading] = useState(false);
+  const aiCall = useAiCall();
+  // Set when the cards shown were an earlier answer to the same request
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [route, setRoute] = useState<AiAnswerRoute | null>(null);
   const [revealedCards, setRevealedCards] = useState<Set<number>>(new Set());
-  const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
 
-  // Check saved status from IndexedDB
-  useEffect(() => {
-    const checkSaved = async () => {
-      const saved = await storage.get<VocabularyItem[]>('memoralink_library');
-      if (saved) {
-        setSavedWords(new Set(saved.map(i => i.word)));
-      }
-    };
-    checkSaved();
-  }, []);
+  // Saved status follows the shared library, including saves from other tabs
+  const { vocabulary, decks } = useLibrary();
+  const [deckId, setDeckId] = useState<string>(() => sessionStorage.getItem('vocab_deck') || '');
+  const targetDeck = decks.find(d => d.id === deckId);
+  // With a deck chosen, a word counts as saved once it is in that deck
+  const savedWords = useMemo(() => createWordMatcher(
+    vocabulary.filter(i => !targetDeck || i.deckIds?.includes(targetDeck.id)).map(i => i.word)
+  ), [vocabulary, targetDeck]);
+
+  const handleDeckChange = (id: string) => {
+    setDeckId(id);
+    const level = decks.find(d => d.id === id)?.targetLevel;
+    if (level) setDifficulty(level);
+  };
 
   // Save transient state to Session Storage
   useEffect(() => {
     sessionStorage.setItem('vocab_cached_words', JSON.stringify(words));
     sessionStorage.setItem('vocab_mode', mode);
-  }, [words, mode]);
+    sessionStorage.setItem('vocab_deck', deckId);
+  }, [words, mode, deckId]);
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (bypassCache = false) => {
     setLoading(true);
     setRevealedCards(new Set());
+    setCachedAt(null);
+    setRoute(null);
+    // Cards record the provider that actually answered, which may be a fallback
+    let answeredBy = providerFor('vocab', aiProvider);
+    const callOptions = { ...aiCall.start(), bypassCache, onCacheHit: setCachedAt, onRoute: (next: AiAnswerRoute) => { answeredBy = next.provider; setRoute(next); } };
     
     try {
       let newWords: VocabularyItem[] = [];
+      let source: CardProvenance;
       if (mode === 'topic') {
         const selectedTopic = customTopic.trim() || topic;
-        newWords = await generateVocabularyByTopic(selectedTopic, count, difficulty, aiProvider);
+        newWords = await generateVocabularyByTopic(selectedTopic, count, difficulty, aiProvider, callOptions);
+        source = { module: 'topic', context: `${selectedTopic} (${difficulty})`, provider: answeredBy, model: modelFor(answeredBy, 'vocabulary'), createdAt: new Date().toISOString() };
       } else {
         const rawList = importText.split(/[\n,]+/).map(w => w.trim()).filter(w => w.length > 0);
         if (rawList.length === 0) {
@@ -67,11 +89,13 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
           setLoading(false);
           return;
         }
-        newWords = await generateVocabularyFromList(rawList, aiProvider);
+        newWords = await generateVocabularyFromList(rawList, aiProvider, callOptions);
+        source = { module: 'list', context: `${rawList.length} pasted word${rawList.length === 1 ? '' : 's'}`, provider: answeredBy, model: modelFor(answeredBy, 'vocabulary'), createdAt: new Date().toISOString() };
       }
-      setWords(newWords); 
+      setWords(newWords.map(word => ({ ...word, source }))); 
     } catch (error: any) {
-      alert(`Failed to generate vocabulary using ${aiProvider}. Error: ${error.message}`);
+      if (error instanceof AiAbortedError) return;
+      alert(`Failed to generate vocabulary using ${providerFor('vocab', aiProvider)}. Error: ${error.message}`);
     } finally {
       setLoading(false);
     }
@@ -81,6 +105,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
     if (confirm("Clear all generated cards and start fresh?")) {
       setWords([]);
       setRevealedCards(new Set());
+      setCachedAt(null);
       sessionStorage.removeItem('vocab_cached_words');
     }
   };
@@ -96,12 +121,10 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
   };
 
   const handleSave = async (item: VocabularyItem) => {
-    const currentLibrary = (await storage.get<VocabularyItem[]>('memoralink_library')) || [];
-    
-    if (!currentLibrary.some(i => i.word === item.word)) {
-      const newLibrary = [item, ...currentLibrary];
-      await storage.set('memoralink_library', newLibrary);
-      setSavedWords(prev => new Set(prev).add(item.word));
+    try {
+      await libraryStore.saveWord(item, targetDeck?.id);
+    } catch (error: any) {
+      alert(`Could not save "${item.word}": ${error.message}`);
     }
   };
 
@@ -117,7 +140,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
           <div className="flex items-center gap-2">
              <h2 className="text-2xl font-bold text-slate-900">Vocabulary Memory Builder</h2>
              <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium tracking-wide">
-               {aiProvider}
+               {providerFor('vocab', aiProvider)}
              </span>
           </div>
           <p className="text-slate-600">
@@ -159,7 +182,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
             <div className="space-y-4">
               <label className="block text-sm font-medium text-slate-700 mb-1">Difficulty</label>
               <div className="grid grid-cols-3 gap-2">
-                {['Beginner', 'Intermediate', 'Advanced'].map((level) => (
+                {DECK_LEVELS.map((level) => (
                   <button key={level} onClick={() => setDifficulty(level)} className={`p-2 text-sm rounded-lg border transition-all ${difficulty === level ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}>{level}</button>
                 ))}
               </div>
@@ -173,12 +196,24 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
           </div>
         )}
 
-        <button onClick={handleGenerate} disabled={loading} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50 shadow-sm hover:shadow-md">
-          {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
-          {mode === 'topic' ? 'Generate Memory Cards' : 'Generate Cards from List'}
-        </button>
+        {decks.length > 0 && (
+          <DeckSelect decks={decks} value={deckId} onChange={handleDeckChange} emptyLabel="Save words to the library only" />
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={() => handleGenerate()} disabled={loading} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50 shadow-sm hover:shadow-md">
+            {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
+            {mode === 'topic' ? 'Generate Memory Cards' : 'Generate Cards from List'}
+          </button>
+          {loading && <StopButton onStop={aiCall.stop} className="rounded-xl" />}
+        </div>
       </div>
 
+      {cachedAt && words.length > 0 && (
+        <CachedNotice savedAt={cachedAt} onRegenerate={() => handleGenerate(true)} disabled={loading} />
+      )}
+      {route && words.length > 0 && <AnsweredBy route={route} />}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {words.map((item, index) => {
           const isRevealed = revealedCards.has(index);
@@ -198,7 +233,7 @@ export const VocabularyBuilder: React.FC<VocabularyBuilderProps> = ({ aiProvider
                   </div>
                 </div>
                 <div className="flex gap-2">
-                  <button onClick={() => handleSave(item)} disabled={isSaved} className={`p-1 rounded-full transition-colors ${isSaved ? 'text-emerald-500 bg-emerald-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}>
+                  <button onClick={() => handleSave(item)} disabled={isSaved} title={targetDeck ? `Save to "${targetDeck.name}"` : 'Save to library'} className={`p-1 rounded-full transition-colors ${isSaved ? 'text-emerald-500 bg-emerald-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}>
                     {isSaved ? <Check className="w-5 h-5" /> : <Bookmark className="w-5 h-5" />}
                   </button>
                   <button onClick={() => toggleReveal(index)} className="text-slate-400 hover:text-indigo-600 transition-colors p-1">
@@ -1,10 +1,20 @@
 
-import React, { useState, useEffect } from 'react';
-import { analyzeWriting } from '../services/geminiService';
-import { storage } from '../services/storage';
+import React, { useState, useMemo } from 'react';
+import { analyzeWriting, modelFor } from '../services/geminiService';
+import { getProvider } from '../services/aiProviders';
+import { providerFor } from '../services/aiRouting';
+import { AiResponseError, partialJsonString } from '../services/aiSchemas';
+import { AiAbortedError, AiQuotaError, AiNetworkError, useAiCall } from '../services/aiRequest';
+import { generateId } from '../services/storage';
+import { libraryStore, useLibrary } from '../services/libraryStore';
+import { createWordMatcher } from '../services/lemmatizer';
 import { playTextToSpeech } from '../services/audioService';
+import { DeckSelect } from './DeckSelect';
+import { StopButton } from './StopButton';
+import { CachedNotice } from './CachedNotice';
+import { AnsweredBy } from './AnsweredBy';
 import { Loader2, CheckCircle2, ArrowRight, PenTool, BookOpen, Bookmark, Check, Volume2, Save, AlertCircle } from 'lucide-react';
-import { AiProvider, VocabularyItem, WritingEntry } from '../types';
+import { AiProvider, VocabularyItem, WritingEntry, WritingAnalysis, CardProvenance, AiAnswerRoute } from '../types';
 
 interface WritingLabProps {
   aiProvider: AiProvider;
@@ -17,34 +27,36 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
   const [contextPreset, setContextPreset] = useState('Professional Work Email');
   const [customContext, setCustomContext] = useState('');
   
-  const [result, setResult] = useState<{ 
-    correction: string, 
-    explanation: string, 
-    improvedVersion: string,
-    keyVocabulary?: VocabularyItem[]
-  } | null>(null);
+  const [result, setResult] = useState<WritingAnalysis | null>(null);
   
   const [loading, setLoading] = useState(false);
+  // The reply so far while the analysis streams in; it restarts if a repair or a fallback provider is asked
+  const [streamed, setStreamed] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
+  // What the user can do about the error, which depends on its kind
+  const [errorHint, setErrorHint] = useState('');
+  const aiCall = useAiCall();
+  // Set when the analysis shown is an earlier answer to the same text and scenario
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [route, setRoute] = useState<AiAnswerRoute | null>(null);
   const [isAnalysisSaved, setIsAnalysisSaved] = useState(false);
+  // Recorded on words saved from this analysis; its writingEntryId is also the id the analysis is saved under
+  const [analysisSource, setAnalysisSource] = useState<CardProvenance | null>(null);
 
-  useEffect(() => {
-    const loadSaved = async () => {
-       const saved = await storage.get<VocabularyItem[]>('memoralink_library');
-       if (saved) {
-         setSavedWords(new Set(saved.map(i => i.word)));
-       }
-    };
-    loadSaved();
-  }, []);
+  const { vocabulary, decks } = useLibrary();
+  const [deckId, setDeckId] = useState('');
+  const targetDeck = decks.find(d => d.id === deckId);
+  // With a deck chosen, a word counts as saved once it is in that deck
+  const savedWords = useMemo(() => createWordMatcher(
+    vocabulary.filter(i => !targetDeck || i.deckIds?.includes(targetDeck.id)).map(i => i.word)
+  ), [vocabulary, targetDeck]);
 
   // Helper to determine the actual context string sent to AI and saved
   const getEffectiveContext = () => {
     return contextPreset === 'Custom' ? customContext : contextPreset;
   };
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (bypassCache = false) => {
     if (!text.trim()) return;
     const activeContext = getEffectiveContext();
     if (!activeContext.trim()) {
@@ -53,28 +65,45 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
     }
 
     setLoading(true);
+    setStreamed('');
     setResult(null);
     setError(null);
+    setErrorHint('');
     setIsAnalysisSaved(false);
+    setCachedAt(null);
+    setRoute(null);
+    // The provider that actually answered, which may be a fallback
+    let answeredBy = providerFor('writing', aiProvider);
     
     try {
-      const analysis = await analyzeWriting(text, activeContext, aiProvider);
+      const analysis = await analyzeWriting(text, activeContext, aiProvider, {
+        ...aiCall.start(), bypassCache, onCacheHit: setCachedAt,
+        onRoute: next => { answeredBy = next.provider; setRoute(next); }
+      }, 'writing', setStreamed);
       setResult(analysis);
+      setAnalysisSource({ module: 'writing', context: activeContext, provider: answeredBy, model: modelFor(answeredBy, 'analysis'), createdAt: new Date().toISOString(), writingEntryId: generateId() });
     } catch (e: any) {
+      if (e instanceof AiAbortedError) return;
       console.error(e);
       setError(e.message || "Analysis failed. Please check your API key and internet connection.");
+      const label = getProvider(providerFor('writing', aiProvider)).label;
+      if (e instanceof AiResponseError) setErrorHint("Please try again, or switch to another AI provider.");
+      else if (e instanceof AiQuotaError) setErrorHint(`${label} is limiting requests. Wait a minute, or add a fallback provider in the AI settings.`);
+      else if (e instanceof AiNetworkError) setErrorHint(`Check your internet connection, or whether ${label} is down.`);
+      else setErrorHint(`Make sure your ${label} API key or endpoint is correctly set up.`);
     } finally {
       setLoading(false);
     }
   };
 
+  const partialCorrection = partialJsonString(streamed, 'correction');
+  const partialImproved = partialJsonString(streamed, 'improvedVersion');
+
   const handleSaveWord = async (item: VocabularyItem) => {
-    const currentLibrary = (await storage.get<VocabularyItem[]>('memoralink_library')) || [];
-    
-    if (!currentLibrary.some(i => i.word === item.word)) {
-      const newLibrary = [item, ...currentLibrary];
-      await storage.set('memoralink_library', newLibrary);
-      setSavedWords(prev => new Set(prev).add(item.word));
+    try {
+      await libraryStore.saveWord(analysisSource ? { ...item, source: analysisSource } : item, targetDeck?.id);
+    } catch (error: any) {
+      alert(`Could not save "${item.word}": ${error.message}`);
     }
   };
 
@@ -85,7 +114,7 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
     const savedContext = getEffectiveContext();
 
     const entry: WritingEntry = {
-      id: Date.now().toString(),
+      id: analysisSource?.writingEntryId || generateId(),
       originalText: text,
       correction: result.correction,
       improvedVersion: result.improvedVersion,
@@ -94,10 +123,12 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
       date: new Date().toLocaleDateString()
     };
 
-    const currentLibrary = (await storage.get<WritingEntry[]>('memoralink_writing_library')) || [];
-    const newLibrary = [entry, ...currentLibrary];
-    await storage.set('memoralink_writing_library', newLibrary);
-    setIsAnalysisSaved(true);
+    try {
+      await libraryStore.saveWritingEntry(entry);
+      setIsAnalysisSaved(true);
+    } catch (error: any) {
+      alert(`Could not save this analysis: ${error.message}`);
+    }
   };
 
   const handleSpeak = (text: string) => {
@@ -110,7 +141,7 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
         <div className="flex items-center gap-2">
            <h2 className="text-2xl font-bold text-slate-900">Writing Lab</h2>
            <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded-full uppercase font-medium tracking-wide">
-             Model: {aiProvider}
+             Model: {providerFor('writing', aiProvider)}
            </span>
         </div>
         <p className="text-slate-600">Practice writing. AI will improve your text and suggest sophisticated vocabulary to add to your library.</p>
@@ -153,13 +184,16 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
               placeholder="Type your sentence or paragraph here..."
             />
             
-            <button 
-              onClick={handleAnalyze}
-              disabled={loading || !text}
-              className="mt-4 w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Analyze & Improve"}
-            </button>
+            <div className="mt-4 flex gap-2">
+              <button 
+                onClick={() => handleAnalyze()}
+                disabled={loading || !text}
+                className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Analyze & Improve"}
+              </button>
+              {loading && <StopButton onStop={aiCall.stop} />}
+            </div>
           </div>
         </div>
 
@@ -170,13 +204,22 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
               <div className="text-sm text-red-700">
                 <p className="font-bold">Analysis Error</p>
                 <p>{error}</p>
-                <p className="mt-2 text-xs opacity-80">
-                  Make sure your {aiProvider === 'deepseek' ? 'DeepSeek' : 'Gemini'} API key is correctly set in your environment variables.
-                </p>
+                <p className="mt-2 text-xs opacity-80">{errorHint}</p>
               </div>
             </div>
           )}
 
+          {loading && !result && (
+            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 space-y-3 animate-in fade-in">
+              <p className="text-sm text-slate-500 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {streamed ? `Receiving the analysis (${streamed.length} characters)...` : 'Waiting for the analysis...'}
+              </p>
+              {partialCorrection && <p className="text-slate-800 text-lg leading-relaxed">{partialCorrection}</p>}
+              {partialImproved && <p className="text-slate-500 italic leading-relaxed">"{partialImproved}"</p>}
+            </div>
+          )}
+
           {result ? (
             <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-500">
               <div className="flex items-center justify-between">
@@ -198,6 +241,9 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                  </button>
               </div>
 
+              {cachedAt && <CachedNotice savedAt={cachedAt} onRegenerate={() => handleAnalyze(true)} disabled={loading} />}
+              {route && <AnsweredBy route={route} />}
+
               <div className="bg-white p-5 rounded-xl shadow-sm border border-l-4 border-l-emerald-500 border-slate-200">
                 <h3 className="text-sm font-bold text-emerald-700 uppercase tracking-wide mb-2 flex items-center gap-2">
                   <CheckCircle2 className="w-4 h-4" /> Grammar Check
@@ -217,6 +263,9 @@ export const WritingLab: React.FC<WritingLabProps> = ({ aiProvider }) => {
                   <h3 className="text-sm font-bold text-amber-600 uppercase tracking-wide mb-3 flex items-center gap-2">
                     <BookOpen className="w-4 h-4" /> Suggested Vocabulary
                   </h3>
+                  {decks.length > 0 && (
+                    <DeckSelect decks={decks} value={deckId} onChange={setDeckId} emptyLabel="Save words to the library only" className="mb-3" />
+                  )}
                   <div className="space-y-3">
                     {result.keyVocabulary.map((wordItem, idx) => {
                       const isSaved = savedWords.has(wordItem.word);
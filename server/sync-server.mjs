@@ -0,0 +1,178 @@
+// MemoraLink sync server: a dependency-free Node HTTP server that relays library changes between devices.
+//
+//   npm run sync-server                       # listens on :8787, data in ./server/data
+//   PORT=9000 SYNC_DATA_DIR=/var/lib/memoralink SYNC_TOKENS=family-secret,tutor-secret npm run sync-server
+//
+// Every sync token gets its own space (one JSON file). When SYNC_TOKENS is set, only those tokens are accepted.
+
+import http from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_DIR = process.env.SYNC_DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const ALLOWED_TOKENS = (process.env.SYNC_TOKENS || '').split(',').map(t => t.trim()).filter(Boolean);
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const KINDS = new Set(['vocabulary', 'writing', 'deck']);
+
+/**
+ * A space holds the latest version of every record plus a revision counter.
+ * @typedef {{ kind: string, id: string, updatedAt: string, deleted: boolean, data?: object, deviceId: string, rev: number }} SyncRecord
+ * @typedef {{ rev: number, records: Record<string, SyncRecord> }} Space
+ */
+
+const spaceIdFor = (token) => crypto.createHash('sha256').update(token).digest('hex').slice(0, 32);
+const spaceFile = (spaceId) => path.join(DATA_DIR, `${spaceId}.json`);
+
+/** @type {Map<string, Space>} */
+const cache = new Map();
+// Requests for the same space are applied one after another
+const queues = new Map();
+
+const withSpaceLock = (spaceId, task) => {
+  const previous = queues.get(spaceId) || Promise.resolve();
+  const next = previous.then(task, task);
+  queues.set(spaceId, next.catch(() => {}));
+  return next;
+};
+
+const loadSpace = async (spaceId) => {
+  if (cache.has(spaceId)) return cache.get(spaceId);
+  let space = { rev: 0, records: {} };
+  try {
+    space = JSON.parse(await fs.readFile(spaceFile(spaceId), 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+  cache.set(spaceId, space);
+  return space;
+};
+
+// Write to a temp file and rename, so a crash never leaves a half-written space
+const saveSpace = async (spaceId, space) => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmp = `${spaceFile(spaceId)}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(space));
+  await fs.rename(tmp, spaceFile(spaceId));
+};
+
+// Last writer wins; equal timestamps are settled by device id so every server picks the same winner
+const isNewer = (incoming, existing) => {
+  if (!existing) return true;
+  if (incoming.updatedAt !== existing.updatedAt) return incoming.updatedAt > existing.updatedAt;
+  return incoming.deviceId > existing.deviceId;
+};
+
+const isValidChange = (change) =>
+  change && KINDS.has(change.kind) && typeof change.id === 'string' && change.id &&
+  typeof change.updatedAt === 'string' && (change.deleted === true || (change.data && typeof change.data === 'object'));
+
+/**
+ * Apply a device's changes, then return everything other devices changed after its cursor.
+ */
+const sync = async (spaceId, body) => {
+  const { deviceId, cursor = 0, changes = [] } = body;
+  if (typeof deviceId !== 'string' || !deviceId) throw new HttpError(400, 'deviceId is required');
+  if (!Array.isArray(changes)) throw new HttpError(400, 'changes must be an array');
+
+  return withSpaceLock(spaceId, async () => {
+    const space = await loadSpace(spaceId);
+    let accepted = 0;
+    let rejected = 0;
+
+    for (const change of changes) {
+      if (!isValidChange(change)) {
+        rejected++;
+        continue;
+      }
+      const key = `${change.kind}:${change.id}`;
+      const incoming = { kind: change.kind, id: change.id, updatedAt: change.updatedAt, deleted: !!change.deleted, deviceId, rev: 0 };
+      if (!incoming.deleted) incoming.data = change.data;
+      if (isNewer(incoming, space.records[key])) {
+        incoming.rev = ++space.rev;
+        space.records[key] = incoming;
+        accepted++;
+      } else {
+        rejected++;
+      }
+    }
+    if (accepted > 0) await saveSpace(spaceId, space);
+
+    const outgoing = Object.values(space.records)
+      .filter(record => record.rev > cursor && record.deviceId !== deviceId)
+      .sort((a, b) => a.rev - b.rev)
+      .map(({ kind, id, updatedAt, deleted, data }) => ({ kind, id, updatedAt, deleted, ...(deleted ? {} : { data }) }));
+
+    return { accepted, rejected, changes: outgoing, cursor: space.rev };
+  });
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const authenticate = (req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) throw new HttpError(401, 'Missing sync token');
+  if (ALLOWED_TOKENS.length > 0 && !ALLOWED_TOKENS.includes(token)) throw new HttpError(403, 'Unknown sync token');
+  return spaceIdFor(token);
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app is served from another origin (or a file), so allow any origin; the token is the access control
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'GET' && req.url === '/health') return send(res, 200, { ok: true });
+    if (req.method === 'POST' && req.url === '/sync') {
+      const spaceId = authenticate(req);
+      return send(res, 200, await sync(spaceId, await readJson(req)));
+    }
+    send(res, 404, { error: 'Not found' });
+  } catch (e) {
+    const status = e instanceof HttpError ? e.status : 500;
+    if (status === 500) console.error(e);
+    send(res, status, { error: e instanceof HttpError ? e.message : 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`MemoraLink sync server listening on http://localhost:${PORT} (data: ${DATA_DIR})`);
+  if (ALLOWED_TOKENS.length === 0) console.log('SYNC_TOKENS is not set: any token is accepted and gets its own space.');
+});
@@ -0,0 +1,104 @@
+import { AiCacheSettings, AiCacheEntry } from "../types";
+import { aiCacheStore } from "./storage";
+
+// Earlier AI answers, reused when exactly the same request is made again: same provider, model,
+// system prompt and user prompt. Saves paid calls and lets generated content load offline.
+
+export const DEFAULT_AI_CACHE_SETTINGS: AiCacheSettings = { enabled: true, ttlDays: 30, maxMegabytes: 5 };
+
+let settings: AiCacheSettings = DEFAULT_AI_CACHE_SETTINGS;
+
+// Set from the active profile's settings
+export const configureAiCache = (changes: Partial<AiCacheSettings>) => {
+  settings = { ...DEFAULT_AI_CACHE_SETTINGS, ...changes };
+};
+
+export const getAiCacheSettings = (): AiCacheSettings => settings;
+
+export interface AiCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number; // Answers served from the cache, over the entries' lifetime
+  oldest?: string;
+  session: { hits: number, misses: number }; // Lookups since the app was opened
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const session = { hits: 0, misses: 0 };
+
+const isExpired = (createdAt: string, now: number) => now - Date.parse(createdAt) > settings.ttlDays * DAY_MS;
+
+/**
+ * SHA-256 of the request parts, as hex. Prompts can quote the user's writing, so only the hash is stored as the key.
+ */
+export const fingerprint = async (parts: string[]): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Drop answers until the cache fits its size limit: expired ones first, then the least recently used.
+ */
+const evict = async () => {
+  const now = Date.now();
+  const entries = await aiCacheStore.list();
+  const ordered = [
+    ...entries.filter(entry => isExpired(entry.createdAt, now)),
+    ...entries.filter(entry => !isExpired(entry.createdAt, now))
+  ];
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const limit = settings.maxMegabytes * 1024 * 1024;
+  const doomed: string[] = [];
+  for (const entry of ordered) {
+    if (total <= limit) break;
+    doomed.push(entry.key);
+    total -= entry.bytes;
+  }
+  await aiCacheStore.deleteMany(doomed);
+};
+
+export const aiCache = {
+  /**
+   * A stored answer that is still fresh, or any stored answer while offline.
+   */
+  async lookup(key: string): Promise<AiCacheEntry | undefined> {
+    if (!settings.enabled) return undefined;
+    const entry = await aiCacheStore.get(key).catch(error => {
+      console.warn("AI cache read failed", error);
+      return undefined;
+    });
+    if (!entry || (isExpired(entry.createdAt, Date.now()) && navigator.onLine)) {
+      session.misses++;
+      return undefined;
+    }
+    session.hits++;
+    aiCacheStore.markUsed(key, new Date().toISOString()).catch(error => console.warn("AI cache update failed", error));
+    return entry;
+  },
+
+  async save(entry: Omit<AiCacheEntry, 'bytes' | 'hits' | 'createdAt' | 'lastUsedAt'>): Promise<void> {
+    if (!settings.enabled) return;
+    const now = new Date().toISOString();
+    await aiCacheStore.put({ ...entry, bytes: entry.response.length * 2, hits: 0, createdAt: now, lastUsedAt: now });
+    await evict();
+  },
+
+  async stats(): Promise<AiCacheStats> {
+    const entries = await aiCacheStore.list();
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      hits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+      oldest: entries.map(entry => entry.createdAt).sort()[0],
+      session: { ...session }
+    };
+  },
+
+  async clear(): Promise<void> {
+    await aiCacheStore.clear();
+  },
+
+  // Apply a smaller size limit right away
+  evict
+};
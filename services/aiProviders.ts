@@ -0,0 +1,371 @@
+import { GoogleGenAI, Schema, Content, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AiProvider, OpenAiCompatibleConfig, TokenUsage, PromptTemplateId } from "../types";
+import { runAiRequest, AiCallOptions, AiHttpError, AiAuthError, AiRequestError, parseRetryAfter } from "./aiRequest";
+import { mockProvider, IS_MOCK_FORCED, MOCK_PROVIDER_ID } from "./mockProvider";
+
+// Cheap, quick model for card generation and chat, or the stronger one for writing analysis
+export type ModelTier = 'fast' | 'strong';
+
+export interface JsonRequest {
+  system?: string;
+  prompt: string;
+  tier: ModelTier;
+  // Structured-output schema for providers that support one (Gemini); others rely on the prompt
+  responseSchema?: Schema;
+  // The template and values the prompt was rendered from; lets the mock provider answer without reading the text
+  template?: { id: PromptTemplateId, values: Record<string, string> };
+}
+
+// An earlier turn of a conversation, for continuing it with another provider
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatSession {
+  sendMessage: (msg: string, options?: AiCallOptions) => Promise<string>;
+  // The same, but `onText` gets the reply so far as it streams in; resolves with the full reply
+  sendMessageStream: (msg: string, onText: (textSoFar: string) => void, options?: AiCallOptions) => Promise<string>;
+}
+
+/**
+ * One AI backend. Features talk to providers only through this interface, so adding a backend
+ * means registering another implementation rather than branching in every feature.
+ */
+export interface AiProviderClient {
+  id: AiProvider;
+  label: string; // Shown in the header toggle
+  isConfigured(): boolean;
+  modelFor(tier: ModelTier): string;
+  // The raw reply in the provider's JSON mode; parsing and validation happen in aiSchemas.
+  // With `onText` the reply is streamed, and `onText` gets the text so far after every chunk.
+  generateJson(request: JsonRequest, options?: AiCallOptions, onText?: (textSoFar: string) => void): Promise<string>;
+  chat(systemInstruction: string, history?: ChatTurn[]): ChatSession;
+}
+
+// Declare global window properties for runtime injection
+declare global {
+  interface Window {
+    API_KEY?: string;
+    DEEPSEEK_API_KEY?: string;
+  }
+}
+
+// --- Gemini ---
+
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  strong: 'gemini-3-pro-preview'
+};
+
+// Key from Window (Runtime) or Env (Build)
+const geminiApiKey = () => window.API_KEY || process.env.API_KEY;
+
+const geminiClient = () => {
+  const apiKey = geminiApiKey();
+  if (!apiKey) throw new AiAuthError("Gemini API Key is missing. Please check your settings.");
+  return new GoogleGenAI({ apiKey });
+};
+
+const geminiUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => metadata && {
+  model,
+  inputTokens: metadata.promptTokenCount || 0,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+};
+
+const geminiProvider: AiProviderClient = {
+  id: 'gemini',
+  label: 'Gemini',
+  isConfigured: () => !!geminiApiKey(),
+  modelFor: tier => GEMINI_MODELS[tier],
+
+  async generateJson(request, options, onText) {
+    const ai = geminiClient();
+    const model = GEMINI_MODELS[request.tier];
+    return runAiRequest('Gemini', async (abortSignal, progress) => {
+      const params = {
+        model,
+        contents: request.prompt,
+        config: {
+          ...(request.system ? { systemInstruction: request.system } : {}),
+          responseMimeType: "application/json",
+          ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+          abortSignal
+        }
+      };
+      let text = "";
+      let metadata: GenerateContentResponseUsageMetadata | undefined;
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        text = response.text || "";
+        metadata = response.usageMetadata;
+      } else {
+        for await (const chunk of await ai.models.generateContentStream(params)) {
+          metadata = chunk.usageMetadata || metadata;
+          if (!chunk.text) continue;
+          text += chunk.text;
+          progress();
+          onText(text);
+        }
+      }
+      const usage = geminiUsage(model, metadata);
+      if (usage) options?.onUsage?.(usage);
+      return text;
+    }, options);
+  },
+
+  chat(systemInstruction, earlier = []) {
+    // History is kept here rather than in an SDK chat (and its sendMessageStream) so a failed or
+    // stopped turn leaves no trace and can simply be sent again
+    const history: Content[] = earlier.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const send = async (msg: string, onText: ((textSoFar: string) => void) | null, options?: AiCallOptions) => {
+      const ai = geminiClient();
+      const turn: Content = { role: 'user', parts: [{ text: msg }] };
+      const request = (abortSignal: AbortSignal) => ({
+        model: GEMINI_MODELS.fast,
+        contents: [...history, turn],
+        config: { systemInstruction, abortSignal }
+      });
+      const reply = await runAiRequest('Gemini', async (abortSignal, progress) => {
+        let text = "";
+        let metadata: GenerateContentResponseUsageMetadata | undefined;
+        if (!onText) {
+          const response = await ai.models.generateContent(request(abortSignal));
+          text = response.text || "";
+          metadata = response.usageMetadata;
+        } else {
+          for await (const chunk of await ai.models.generateContentStream(request(abortSignal))) {
+            metadata = chunk.usageMetadata || metadata; // The totals come with the last chunk
+            if (!chunk.text) continue;
+            text += chunk.text;
+            progress();
+            onText(text);
+          }
+        }
+        const usage = geminiUsage(GEMINI_MODELS.fast, metadata);
+        if (usage) options?.onUsage?.(usage);
+        return text;
+      }, options);
+      history.push(turn, { role: 'model', parts: [{ text: reply }] });
+      return reply;
+    };
+    return {
+      sendMessage: (msg, options) => send(msg, null, options),
+      sendMessageStream: (msg, onText, options) => send(msg, onText, options)
+    };
+  }
+};
+
+// --- OpenAI-compatible (DeepSeek, Ollama, LM Studio, gateways) ---
+
+interface OpenAiCompatibleOptions {
+  id: AiProvider;
+  label: string;
+  getConfig: () => OpenAiCompatibleConfig | null;
+  requiresKey?: boolean; // Hosted APIs; local servers usually need no key
+  // Ask for `response_format: json_object`. Not every server accepts it, so custom endpoints rely on the prompt.
+  jsonMode: boolean;
+}
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant', content: string };
+
+// OpenAI-style `usage`, which DeepSeek and most local servers also return
+const openAiUsage = (model: string, usage?: { prompt_tokens?: number, completion_tokens?: number }): TokenUsage | undefined => usage && {
+  model,
+  inputTokens: usage.prompt_tokens || 0,
+  outputTokens: usage.completion_tokens || 0
+};
+
+const chatCompletionsUrl = (baseUrl: string) => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+};
+
+/**
+ * Read a server-sent event stream, passing each `data:` payload to `onData` until `[DONE]`.
+ */
+const readSse = async (response: Response, onData: (data: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || ''; // The last line may still be incomplete
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) onData(data);
+    }
+  }
+};
+
+export const createOpenAiCompatibleProvider = ({ id, label, getConfig, requiresKey, jsonMode }: OpenAiCompatibleOptions): AiProviderClient => {
+  const requireConfig = (): OpenAiCompatibleConfig => {
+    const config = getConfig();
+    if (!config?.baseUrl || !config.model) {
+      throw new AiRequestError(`${label} is not set up yet. Add its base URL and model in the AI provider settings.`);
+    }
+    if (requiresKey && !config.apiKey) {
+      throw new AiAuthError(`${label} API Key is missing. Please check your settings.`);
+    }
+    return config;
+  };
+
+  const post = async (config: OpenAiCompatibleConfig, body: object, signal: AbortSignal): Promise<Response> => {
+    const response = await fetch(chatCompletionsUrl(config.baseUrl), {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: config.model, ...body })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message = errorData.error?.message || `${label} API error: ${response.status} ${response.statusText}`;
+      throw new AiHttpError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  const complete = async (messages: ChatMessage[], json: boolean, options?: AiCallOptions): Promise<string> => {
+    const config = requireConfig();
+    return runAiRequest(label, async signal => {
+      const response = await post(config, {
+        messages,
+        ...(json && jsonMode ? { response_format: { type: "json_object" } } : {})
+      }, signal);
+      const data = await response.json();
+      const usage = openAiUsage(config.model, data.usage);
+      if (usage) options?.onUsage?.(usage);
+      return data.choices?.[0]?.message?.content || "";
+    }, options);
+  };
+
+  const completeStream = async (messages: ChatMessage[], json: boolean, onText: (textSoFar: string) => void, options?: AiCallOptions): Promise<string> => {
+    const config = requireConfig();
+    return runAiRequest(label, async (signal, progress) => {
+      // include_usage adds a final chunk with the token counts
+      const response = await post(config, {
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(json && jsonMode ? { response_format: { type: "json_object" } } : {})
+      }, signal);
+      // Some local servers ignore `stream` and answer in one piece
+      if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const data = await response.json();
+        const content: string = data.choices?.[0]?.message?.content || "";
+        const usage = openAiUsage(config.model, data.usage);
+        if (usage) options?.onUsage?.(usage);
+        onText(content);
+        return content;
+      }
+      let text = "";
+      let usage: TokenUsage | undefined;
+      await readSse(response, data => {
+        const chunk = JSON.parse(data);
+        usage = openAiUsage(config.model, chunk.usage) || usage;
+        const piece = chunk.choices?.[0]?.delta?.content;
+        if (!piece) return;
+        text += piece;
+        progress();
+        onText(text);
+      });
+      if (usage) options?.onUsage?.(usage);
+      return text;
+    }, options);
+  };
+
+  return {
+    id,
+    label,
+    isConfigured: () => {
+      const config = getConfig();
+      return !!(config?.baseUrl && config.model && (!requiresKey || config.apiKey));
+    },
+    modelFor: () => getConfig()?.model || 'unknown',
+
+    async generateJson(request, options, onText) {
+      const messages: ChatMessage[] = [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        { role: 'user', content: request.prompt }
+      ];
+      return onText ? completeStream(messages, true, onText, options) : complete(messages, true, options);
+    },
+
+    chat(systemInstruction, earlier = []) {
+      const history: ChatMessage[] = earlier.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+      const send = async (msg: string, onText: ((textSoFar: string) => void) | null, options?: AiCallOptions) => {
+        const turn: ChatMessage = { role: "user", content: msg };
+        const messages: ChatMessage[] = [{ role: "system", content: systemInstruction }, ...history, turn];
+        const content = onText ? await completeStream(messages, false, onText, options) : await complete(messages, false, options);
+        history.push(turn, { role: "assistant", content });
+        return content;
+      };
+      return {
+        sendMessage: (msg, options) => send(msg, null, options),
+        sendMessageStream: (msg, onText, options) => send(msg, onText, options)
+      };
+    }
+  };
+};
+
+const deepSeekProvider = createOpenAiCompatibleProvider({
+  id: 'deepseek',
+  label: 'DeepSeek',
+  requiresKey: true,
+  jsonMode: true,
+  getConfig: () => ({
+    baseUrl: 'https://api.deepseek.com',
+    model: 'deepseek-chat', // Standard DeepSeek model name
+    apiKey: window.DEEPSEEK_API_KEY || process.env.DEEPSEEK_API_KEY
+  })
+});
+
+// Set from the active profile's settings
+let customEndpoint: OpenAiCompatibleConfig | null = null;
+
+export const configureCustomEndpoint = (config: OpenAiCompatibleConfig | null) => {
+  customEndpoint = config;
+};
+
+export const CUSTOM_PROVIDER_ID = 'openai-compatible';
+
+const customProvider = createOpenAiCompatibleProvider({
+  id: CUSTOM_PROVIDER_ID,
+  label: 'Custom',
+  jsonMode: false,
+  getConfig: () => customEndpoint
+});
+
+// --- Registry ---
+
+const providers = new Map<AiProvider, AiProviderClient>();
+
+export const registerProvider = (provider: AiProviderClient) => {
+  providers.set(provider.id, provider);
+};
+
+[deepSeekProvider, geminiProvider, customProvider, mockProvider].forEach(registerProvider);
+
+export const DEFAULT_PROVIDER: AiProvider = IS_MOCK_FORCED ? MOCK_PROVIDER_ID : 'deepseek';
+
+/**
+ * Registered providers in the order they were registered (the header toggle order).
+ */
+export const listProviders = (): AiProviderClient[] => Array.from(providers.values());
+
+export const hasProvider = (id: string): boolean => providers.has(id);
+
+export const getProvider = (id: AiProvider): AiProviderClient => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown AI provider "${id}".`);
+  return provider;
+};
@@ -0,0 +1,207 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { AiRequestSettings, TokenUsage, AiAnswerRoute } from '../types';
+
+// Shared request layer for every AI call: per-attempt timeouts, retries with exponential backoff on
+// 429/5xx (honouring Retry-After), cancellation, and errors sorted into auth, quota and network failures.
+
+export const DEFAULT_AI_REQUEST_SETTINGS: AiRequestSettings = { timeoutMs: 60_000, maxRetries: 2 };
+
+let settings: AiRequestSettings = DEFAULT_AI_REQUEST_SETTINGS;
+
+// Set from the active profile's settings
+export const configureAiRequests = (changes: Partial<AiRequestSettings>) => {
+  settings = { ...DEFAULT_AI_REQUEST_SETTINGS, ...changes };
+};
+
+export const getAiRequestSettings = (): AiRequestSettings => settings;
+
+// Per-call options threaded from the UI down to the provider
+export interface AiCallOptions {
+  signal?: AbortSignal; // Aborting it stops the call (the "Stop" buttons)
+  timeoutMs?: number;
+  bypassCache?: boolean; // Ask the provider even if the same request was answered before ("Regenerate")
+  onCacheHit?: (savedAt: string) => void; // Told when an earlier answer was reused instead
+  beforeCall?: () => Promise<void>; // Runs before a paid call (not for cache hits); throwing cancels the call
+  onUsage?: (usage: TokenUsage) => void; // Told the tokens of every successful call
+  onRoute?: (route: AiAnswerRoute) => void; // Told which provider answered, which may be a fallback
+}
+
+// Longest wait between attempts; a Retry-After beyond this is reported instead of waited out
+const MAX_BACKOFF_MS = 30_000;
+const BASE_BACKOFF_MS = 1_000;
+
+/**
+ * Base class for failed AI requests. The subclasses say what the user can do about it.
+ */
+export class AiRequestError extends Error {
+  status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AiRequestError';
+    this.status = status;
+  }
+}
+
+// Missing, wrong or unauthorised API key (401/403)
+export class AiAuthError extends AiRequestError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AiAuthError';
+  }
+}
+
+// Rate limited or out of credit (429, or 402 for prepaid APIs)
+export class AiQuotaError extends AiRequestError {
+  retryAfterMs?: number;
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message, status);
+    this.name = 'AiQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The server could not be reached, timed out or kept failing (5xx)
+export class AiNetworkError extends AiRequestError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AiNetworkError';
+  }
+}
+
+// Stopped by the user; views ignore it rather than showing an error
+export class AiAbortedError extends AiRequestError {
+  constructor() {
+    super("The request was stopped.");
+    this.name = 'AiAbortedError';
+  }
+}
+
+/**
+ * A failed HTTP response, thrown by providers so the request layer can classify and retry it.
+ */
+export class AiHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status === 408 || status >= 500;
+
+const classify = (error: unknown, label: string): AiRequestError => {
+  if (error instanceof AiRequestError) return error;
+  const status = (error as any)?.status;
+  const message = (error as any)?.message || String(error);
+  if (typeof status === 'number') {
+    if (status === 401 || status === 403) return new AiAuthError(`${label} rejected the API key: ${message}`, status);
+    if (status === 429 || status === 402) return new AiQuotaError(`${label} rate limit or quota reached: ${message}`, status, (error as any).retryAfterMs);
+    if (status >= 500 || status === 408) return new AiNetworkError(`${label} is having trouble (${status}): ${message}`, status);
+    return new AiRequestError(message, status);
+  }
+  // fetch() rejects with a TypeError when the server can't be reached (offline, DNS, CORS)
+  if (error instanceof TypeError) return new AiNetworkError(`Could not reach ${label}. Check your connection${label === 'Custom' ? ' and the endpoint URL' : ''}.`);
+  return new AiRequestError(message);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AiAbortedError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AiAbortedError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run one AI call through the shared policy. `attempt` gets a signal that fires on timeout or when
+ * the caller aborts, and should pass it to fetch / the SDK. Streaming attempts call `progress()` for
+ * each chunk: the timeout then counts from the latest chunk, and a stream that fails part-way is not
+ * retried, since the caller has already shown (or spoken) what arrived.
+ */
+export const runAiRequest = async <T>(label: string, attempt: (signal: AbortSignal, progress: () => void) => Promise<T>, options: AiCallOptions = {}): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? settings.timeoutMs;
+  for (let retry = 0; ; retry++) {
+    if (options.signal?.aborted) throw new AiAbortedError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let streamed = false;
+    const onTimeout = () => {
+      timedOut = true;
+      controller.abort();
+    };
+    let timer = setTimeout(onTimeout, timeoutMs);
+    const progress = () => {
+      streamed = true;
+      clearTimeout(timer);
+      timer = setTimeout(onTimeout, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let failure: AiRequestError;
+    try {
+      return await attempt(controller.signal, progress);
+    } catch (error) {
+      if (options.signal?.aborted) throw new AiAbortedError();
+      failure = timedOut
+        ? new AiNetworkError(`${label} ${streamed ? 'stopped responding for' : 'did not answer within'} ${Math.round(timeoutMs / 1000)} seconds.`)
+        : classify(error, label);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const retryable = timedOut || failure instanceof AiNetworkError || (failure.status !== undefined && isRetryableStatus(failure.status));
+    if (!retryable || streamed || retry >= settings.maxRetries) throw failure;
+
+    const retryAfterMs = failure instanceof AiQuotaError ? failure.retryAfterMs : undefined;
+    if (retryAfterMs !== undefined && retryAfterMs > MAX_BACKOFF_MS) throw failure;
+    // Exponential backoff with jitter, unless the server said how long to wait
+    const delay = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** retry) * (0.5 + Math.random() / 2);
+    console.warn(`${label} request failed (${failure.message}), retrying in ${Math.round(delay)}ms`);
+    await wait(delay, options.signal);
+  }
+};
+
+/**
+ * One cancellable AI call at a time for a view: `start()` returns the options to pass to the call
+ * (aborting any previous one), `stop()` backs the Stop button, and unmounting aborts too.
+ */
+export const useAiCall = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const start = useCallback((): AiCallOptions => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return { signal: controllerRef.current.signal };
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return { start, stop };
+};
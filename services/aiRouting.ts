@@ -0,0 +1,70 @@
+import { AiFeature, AiProvider, AiRouting, AiAnswerRoute } from "../types";
+import { getProvider, hasProvider } from "./aiProviders";
+import { AiCallOptions, AiAuthError, AiQuotaError, AiNetworkError } from "./aiRequest";
+
+// Which provider answers each AI feature: the one routed to the feature (or picked in the header) first,
+// then an ordered list of fallbacks for failures another provider may not have.
+
+export const DEFAULT_ROUTING: AiRouting = { features: {}, fallbacks: [] };
+
+let routing: AiRouting = DEFAULT_ROUTING;
+
+// Set from the active profile's settings
+export const configureRouting = (changes: Partial<AiRouting> = {}) => {
+  routing = { ...DEFAULT_ROUTING, ...changes };
+};
+
+export const getRouting = (): AiRouting => routing;
+
+/**
+ * The provider a feature asks first: its own route if one is set, otherwise the header choice.
+ */
+export const providerFor = (feature: AiFeature, selected: AiProvider): AiProvider => {
+  const routed = routing.features[feature];
+  return routed && hasProvider(routed) ? routed : selected;
+};
+
+/**
+ * The providers a feature's call is tried with, in order, without repeats.
+ */
+export const providerChain = (feature: AiFeature, selected: AiProvider): AiProvider[] => {
+  return Array.from(new Set([providerFor(feature, selected), ...routing.fallbacks.filter(hasProvider)]));
+};
+
+// A missing or rejected key, a quota, a 5xx, a timeout or an unreachable server: worth asking the next provider
+const canFailOver = (error: unknown) => error instanceof AiAuthError || error instanceof AiQuotaError || error instanceof AiNetworkError;
+
+/**
+ * Run `call` with each provider in the feature's chain until one answers. Only failures in `canFailOver`
+ * move on, and only while `mayFailOver()` agrees (a chat reply that already started streaming doesn't).
+ * Providers that are not set up are skipped unless they are the last one left. `options.onRoute` is told
+ * which provider answered and which failed before it.
+ */
+export const withFailover = async <T>(
+  feature: AiFeature,
+  selected: AiProvider,
+  call: (provider: AiProvider) => Promise<T>,
+  options?: AiCallOptions,
+  mayFailOver: () => boolean = () => true
+): Promise<T> => {
+  const chain = providerChain(feature, selected);
+  const skipped: AiAnswerRoute['skipped'] = [];
+  for (let i = 0; ; i++) {
+    const provider = chain[i];
+    const isLast = i === chain.length - 1;
+    if (!isLast && !getProvider(provider).isConfigured()) {
+      skipped.push({ provider, reason: 'not set up' });
+      continue;
+    }
+    try {
+      const result = await call(provider);
+      options?.onRoute?.({ provider, skipped });
+      return result;
+    } catch (error) {
+      if (isLast || !canFailOver(error) || !mayFailOver()) throw error;
+      const reason = (error as Error).message;
+      console.warn(`${getProvider(provider).label} failed (${reason}), trying the next provider`);
+      skipped.push({ provider, reason });
+    }
+  }
+};
@@ -0,0 +1,262 @@
+import { VocabularyItem, WritingAnalysis, AiProvider } from "../types";
+import { getProvider, JsonRequest } from "./aiProviders";
+import { AiCallOptions } from "./aiRequest";
+import { aiCache, fingerprint } from "./aiCache";
+
+// Runtime checks for the JSON the models return. Known wrapper shapes are unwrapped and missing
+// optional fields defaulted; anything still wrong gets one repair prompt before it reaches the user.
+
+export type Validation<T> = { ok: true, value: T } | { ok: false, issues: string[] };
+
+export interface ResponseSchema<T> {
+  name: string; // What the response is, for error messages
+  shape: string; // The expected JSON, described for the repair prompt
+  validate(value: unknown): Validation<T>;
+}
+
+export class AiResponseError extends Error {
+  issues: string[];
+  constructor(schemaName: string, issues: string[], providerLabel: string) {
+    super(`${providerLabel} returned ${schemaName} in an unexpected format, even after being asked to fix it: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '…' : ''}`);
+    this.name = 'AiResponseError';
+    this.issues = issues;
+  }
+}
+
+// Keys models like to wrap an answer in, e.g. DeepSeek's json_object mode returning {"words": [...]}
+const WRAPPER_KEYS = ['words', 'vocabulary', 'cards', 'items', 'data', 'results', 'result', 'analysis', 'response', 'output'];
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A lone object under a wrapper key, or the first array found in one
+const unwrap = (value: unknown, wantArray: boolean): unknown => {
+  if (!isObject(value)) return value;
+  for (const key of WRAPPER_KEYS) {
+    const inner = value[key];
+    if (wantArray ? Array.isArray(inner) : isObject(inner)) return inner;
+  }
+  if (wantArray) {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+  }
+  return value;
+};
+
+/**
+ * Parse a model's text as JSON: code fences and chatter around the JSON are ignored.
+ */
+export const parseJsonText = (text: string): Validation<unknown> => {
+  const clean = text.replace(/```(?:json)?/gi, '').trim();
+  try {
+    return { ok: true, value: JSON.parse(clean) };
+  } catch {
+    // Fall back to the outermost object or array in the text
+    const start = clean.search(/[[{]/);
+    const end = Math.max(clean.lastIndexOf('}'), clean.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return { ok: true, value: JSON.parse(clean.slice(start, end + 1)) };
+      } catch { /* reported below */ }
+    }
+    return { ok: false, issues: ['the reply is not valid JSON'] };
+  }
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * The value of the string property `field` in a JSON reply that is still streaming, as far as it has
+ * arrived (undefined until its opening quote). Only for progress display: the full reply is validated.
+ */
+export const partialJsonString = (text: string, field: string): string | undefined => {
+  const start = text.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start) return undefined;
+  let value = '';
+  for (let i = start.index! + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    const escaped = text[++i];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const code = text.slice(i + 1, i + 5);
+      if (!/^[0-9a-f]{4}$/i.test(code)) break;
+      value += String.fromCharCode(parseInt(code, 16));
+      i += 4;
+    } else {
+      value += JSON_ESCAPES[escaped] ?? escaped;
+    }
+  }
+  return value;
+};
+
+const asText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const asTags = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(asText).filter((tag): tag is string => !!tag);
+  if (typeof value === 'string') return value.split(',').map(tag => tag.trim()).filter(Boolean);
+  return [];
+};
+
+// Field spellings models use instead of ours
+const FIELD_ALIASES: Record<string, string[]> = {
+  exampleSentence: ['example', 'example_sentence', 'sentence'],
+  chineseTranslation: ['translation', 'chinese', 'chinese_translation'],
+  mnemonic: ['memoryHook', 'memory_hook', 'hook'],
+  phonetic: ['ipa', 'pronunciation']
+};
+
+const field = (raw: Record<string, any>, key: string): string | undefined => {
+  for (const name of [key, ...(FIELD_ALIASES[key] || [])]) {
+    const text = asText(raw[name]);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+/**
+ * Check one card. `required` fields must be present; the rest default to empty.
+ */
+const validateCard = (raw: unknown, label: string, required: (keyof VocabularyItem)[]): Validation<VocabularyItem> => {
+  if (!isObject(raw)) return { ok: false, issues: [`${label} is not an object`] };
+  const card: VocabularyItem = {
+    word: field(raw, 'word') || '',
+    phonetic: field(raw, 'phonetic'),
+    definition: field(raw, 'definition') || '',
+    chineseTranslation: field(raw, 'chineseTranslation') || '',
+    exampleSentence: field(raw, 'exampleSentence') || '',
+    mnemonic: field(raw, 'mnemonic') || '',
+    context: field(raw, 'context') || '',
+    tags: asTags(raw.tags)
+  };
+  const missing = required.filter(key => !card[key]);
+  if (missing.length > 0) {
+    return { ok: false, issues: [`${label}${card.word ? ` ("${card.word}")` : ''} is missing ${missing.map(key => `"${key}"`).join(', ')}`] };
+  }
+  return { ok: true, value: card };
+};
+
+const CARD_KEYS = '"word", "phonetic", "definition", "chineseTranslation", "exampleSentence", "mnemonic", "context", "tags" (array of strings)';
+
+// Generated cards must have everything the card view shows; phonetic, context and tags may be left out
+const REQUIRED_CARD_FIELDS: (keyof VocabularyItem)[] = ['word', 'definition', 'chineseTranslation', 'exampleSentence', 'mnemonic'];
+
+export const vocabularyListSchema: ResponseSchema<VocabularyItem[]> = {
+  name: 'vocabulary cards',
+  shape: `a JSON array of objects, each with the keys ${CARD_KEYS}`,
+  validate(value) {
+    let list = unwrap(value, true);
+    if (isObject(list) && 'word' in list) list = [list]; // A single card on its own
+    if (!Array.isArray(list)) return { ok: false, issues: ['expected an array of cards'] };
+    if (list.length === 0) return { ok: false, issues: ['the array of cards is empty'] };
+
+    const cards: VocabularyItem[] = [];
+    const issues: string[] = [];
+    list.forEach((raw, index) => {
+      const result = validateCard(raw, `card ${index + 1}`, REQUIRED_CARD_FIELDS);
+      if (result.ok) cards.push(result.value);
+      else issues.push(...result.issues);
+    });
+    return issues.length ? { ok: false, issues } : { ok: true, value: cards };
+  }
+};
+
+export const writingAnalysisSchema: ResponseSchema<WritingAnalysis> = {
+  name: 'a writing analysis',
+  shape: `a JSON object with the string keys "correction", "improvedVersion" and "explanation", and "keyVocabulary": an array of objects with the keys ${CARD_KEYS}`,
+  validate(value) {
+    const raw = unwrap(value, false);
+    if (!isObject(raw)) return { ok: false, issues: ['expected a JSON object'] };
+
+    const issues: string[] = [];
+    const text = (key: string) => {
+      const found = asText(raw[key]);
+      if (!found) issues.push(`"${key}" is missing`);
+      return found || '';
+    };
+    const analysis: WritingAnalysis = {
+      correction: text('correction'),
+      improvedVersion: text('improvedVersion'),
+      explanation: text('explanation'),
+      keyVocabulary: []
+    };
+    // Suggested words are a bonus: unusable ones are dropped rather than failing the analysis
+    const suggestions = unwrap(raw.keyVocabulary ?? raw.vocabulary, true);
+    if (Array.isArray(suggestions)) {
+      suggestions.forEach((item, index) => {
+        const result = validateCard(item, `suggested word ${index + 1}`, ['word', 'definition']);
+        if (result.ok) analysis.keyVocabulary.push(result.value);
+      });
+    }
+    return issues.length ? { ok: false, issues } : { ok: true, value: analysis };
+  }
+};
+
+const repairPrompt = (request: JsonRequest, schema: ResponseSchema<unknown>, reply: string, issues: string[]) => `${request.prompt}
+
+Your previous reply could not be used:
+${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+Previous reply:
+${reply.slice(0, 4000)}
+
+Reply again with ONLY ${schema.shape}. Keep the content, fix the format, and fill in anything missing.`;
+
+/**
+ * Ask a provider for JSON and check it against `schema`. A reply that fails gets one repair prompt
+ * listing what was wrong; if that fails too, an AiResponseError is thrown. Replies that pass are cached,
+ * and an identical request is answered from the cache unless `options.bypassCache` is set.
+ * With `onText` the reply is streamed for progress display; it is still only validated once complete.
+ */
+export const requestJson = async <T>(
+  providerId: AiProvider,
+  request: JsonRequest,
+  schema: ResponseSchema<T>,
+  options?: AiCallOptions,
+  onText?: (textSoFar: string) => void
+): Promise<T> => {
+  const provider = getProvider(providerId);
+  const check = (reply: string): Validation<T> => {
+    const parsed = parseJsonText(reply);
+    return parsed.ok ? schema.validate(parsed.value) : parsed;
+  };
+
+  const model = provider.modelFor(request.tier);
+  const key = await fingerprint([provider.id, model, request.system || '', request.prompt]);
+  if (!options?.bypassCache) {
+    const cached = await aiCache.lookup(key);
+    const result = cached && check(cached.response);
+    if (result?.ok) {
+      options?.onCacheHit?.(cached!.createdAt);
+      return result.value;
+    }
+  }
+  const remember = (response: string) => aiCache.save({ key, provider: provider.id, model, schema: schema.name, response })
+    .catch(error => console.warn("Could not cache the AI reply", error));
+
+  await options?.beforeCall?.();
+  const reply = await provider.generateJson(request, options, onText);
+  const first = check(reply);
+  if (first.ok) {
+    await remember(reply);
+    return first.value;
+  }
+
+  console.warn(`AI reply failed validation (${schema.name}), asking for a repair`, first.issues);
+  // The repair is a second paid call, so it passes the same budget check
+  await options?.beforeCall?.();
+  const repairedReply = await provider.generateJson({ ...request, prompt: repairPrompt(request, schema, reply, first.issues) }, options, onText);
+  const repaired = check(repairedReply);
+  if (repaired.ok) {
+    await remember(repairedReply);
+    return repaired.value;
+  }
+  throw new AiResponseError(schema.name, repaired.issues, provider.label);
+};
@@ -0,0 +1,250 @@
+import { VocabularyItem } from "../types";
+import { imageStore } from "./storage";
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+
+// Stable ids so re-importing an updated export updates the same note type and deck in Anki.
+// The note type id changed when its unused Audio field was dropped, since Anki won't map notes onto different fields.
+const MODEL_ID = 1716000000003;
+const DECK_ID = 1716000000002;
+const DECK_NAME = 'MemoraLink';
+
+// Each exported MemoraLink deck becomes a subdeck with an id derived from its name, so re-imports land in the same place
+const deckIdFor = (deckName: string) => {
+  if (deckName === DECK_NAME) return DECK_ID;
+  let hash = 0;
+  for (const char of deckName) hash = (hash * 31 + char.codePointAt(0)!) % 1000000;
+  return DECK_ID + 1 + hash;
+};
+
+const ankiDeckName = (deckName?: string) => deckName ? `${DECK_NAME}::${deckName}` : DECK_NAME;
+
+const fileSlug = (deckName?: string) => deckName ? `_${deckName.replace(/[^\p{L}\p{N}_-]+/gu, '_')}` : '';
+
+// Pronunciation comes from Anki's own text-to-speech rather than an audio field
+const FIELDS = ['Word', 'Phonetic', 'Definition', 'ChineseTranslation', 'Example', 'Mnemonic', 'Image'];
+
+const FRONT_TEMPLATE = `<div class="word">{{Word}}</div>
+<div class="phonetic">{{Phonetic}}</div>
+{{Image}}
+{{tts en_US:Word}}`;
+
+const BACK_TEMPLATE = `{{FrontSide}}
+<hr id="answer">
+<div class="definition">{{Definition}}</div>
+<div class="translation">{{ChineseTranslation}}</div>
+<div class="example">{{Example}}</div>
+{{#Mnemonic}}<div class="mnemonic">🧠 {{Mnemonic}}</div>{{/Mnemonic}}`;
+
+const CARD_CSS = `.card { font-family: Inter, Arial, sans-serif; font-size: 20px; text-align: center; color: #0f172a; background: #fff; }
+.word { font-size: 36px; font-weight: 800; }
+.phonetic { color: #64748b; font-family: monospace; }
+.card img { max-width: 100%; max-height: 320px; border-radius: 12px; margin-top: 12px; }
+.translation { color: #475569; margin-top: 8px; }
+.example { color: #312e81; font-style: italic; margin-top: 12px; }
+.mnemonic { background: #fffbeb; color: #78350f; padding: 12px; border-radius: 12px; margin-top: 12px; font-style: italic; }`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DECK_CONFIG = {
+  id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 }
+};
+
+const buildDeck = (id: number, name: string, now: number) => ({
+  id, name, desc: '', mod: now, usn: -1, collapsed: false, browserCollapsed: false,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  dyn: 0, conf: 1, extendNew: 10, extendRev: 50
+});
+
+const buildModel = (now: number) => ({
+  id: MODEL_ID,
+  name: 'MemoraLink Vocabulary',
+  type: 0,
+  mod: now,
+  usn: -1,
+  sortf: 0,
+  did: DECK_ID,
+  tmpls: [{ name: 'Recognition', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+  flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'any', [0]]]
+});
+
+const escapeHtml = (s: string = '') => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki tags are space-separated, so spaces inside a tag become underscores
+const formatTags = (tags: string[] = []) => tags.map(t => t.trim().replace(/\s+/g, '_')).filter(Boolean).join(' ');
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const checksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.substring(0, 8), 16);
+};
+
+interface MediaFile {
+  name: string;
+  data: Uint8Array;
+}
+
+const extensionFor = (mimeSubtype: string) => mimeSubtype === 'jpeg' ? 'jpg' : mimeSubtype.replace('svg+xml', 'svg');
+
+// Split a data URL into a file extension and raw bytes
+const decodeDataUrl = (dataUrl: string): { ext: string, data: Uint8Array } | null => {
+  const match = /^data:image\/([a-zA-Z0-9.+-]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { ext: extensionFor(match[1]), data };
+};
+
+// Full-size image bytes for a card, from the images store or a legacy inline data URL
+const loadImageBytes = async (item: VocabularyItem): Promise<{ ext: string, data: Uint8Array } | null> => {
+  if (item.imageId) {
+    const stored = await imageStore.get(item.imageId);
+    if (stored) {
+      return { ext: extensionFor(stored.blob.type.replace('image/', '') || 'jpeg'), data: new Uint8Array(await stored.blob.arrayBuffer()) };
+    }
+  }
+  return item.image ? decodeDataUrl(item.image) : null;
+};
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Build an Anki package (.apkg): a zipped SQLite collection plus numbered media files.
+ */
+export const buildApkg = async (items: VocabularyItem[], deckName: string = DECK_NAME): Promise<Blob> => {
+  const [{ default: initSqlJs }, { default: JSZip }] = await Promise.all([import('sql.js'), import('jszip')]);
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    const deckId = deckIdFor(deckName);
+    const decks = { 1: buildDeck(1, 'Default', now), [deckId]: buildDeck(deckId, deckName, now) };
+    const conf = { nextPos: items.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(MODEL_ID), collapseTime: 1200 };
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [now, nowMs, nowMs, JSON.stringify(conf), JSON.stringify({ [MODEL_ID]: buildModel(now) }), JSON.stringify(decks), JSON.stringify({ 1: DECK_CONFIG }), '{}']
+    );
+
+    const media: MediaFile[] = [];
+    const noteStmt = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const cardStmt = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      let imageField = '';
+      if (item.imageId || item.image) {
+        const decoded = await loadImageBytes(item);
+        if (decoded) {
+          const name = `memoralink_${(item.id || String(i)).replace(/[^a-zA-Z0-9-]/g, '')}.${decoded.ext}`;
+          media.push({ name, data: decoded.data });
+          imageField = `<img src="${name}">`;
+        }
+      }
+
+      const fields = [
+        escapeHtml(item.word),
+        escapeHtml(item.phonetic),
+        escapeHtml(item.definition),
+        escapeHtml(item.chineseTranslation),
+        escapeHtml(item.exampleSentence),
+        escapeHtml(item.mnemonic),
+        imageField
+      ];
+      const tags = formatTags(item.tags);
+      const noteId = nowMs + i;
+      noteStmt.run([noteId, item.id || `ml-${noteId}`, MODEL_ID, now, tags ? ` ${tags} ` : '', fields.join('\x1f'), item.word, await checksum(item.word)]);
+      cardStmt.run([noteId, noteId, deckId, now, i + 1]);
+    }
+    noteStmt.free();
+    cardStmt.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    const mediaMap: Record<string, string> = {};
+    media.forEach((file, index) => {
+      mediaMap[index] = file.name;
+      zip.file(String(index), file.data);
+    });
+    zip.file('media', JSON.stringify(mediaMap));
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Download cards as an .apkg. With a `deckName` they go into a MemoraLink subdeck of that name.
+ */
+export const exportApkg = async (items: VocabularyItem[], deckName?: string) => {
+  const blob = await buildApkg(items, ankiDeckName(deckName));
+  download(blob, `memoralink_deck${fileSlug(deckName)}.apkg`);
+};
+
+// TSV cells cannot contain tabs or raw newlines; Anki reads <br> since the file is marked as HTML
+const tsvCell = (s: string = '') => escapeHtml(s).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+/**
+ * Plain-text export for Anki's File > Import. Header lines tell Anki the separator and tag column.
+ * Images are not included; use the .apkg export for those.
+ */
+export const buildAnkiTsv = (items: VocabularyItem[], deckName: string = DECK_NAME): string => {
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    `#deck:${deckName}`,
+    '#tags column:7',
+    '#columns:Word\tPhonetic\tDefinition\tChineseTranslation\tExample\tMnemonic\tTags'
+  ];
+  items.forEach(item => {
+    lines.push([
+      tsvCell(item.word),
+      tsvCell(item.phonetic),
+      tsvCell(item.definition),
+      tsvCell(item.chineseTranslation),
+      tsvCell(item.exampleSentence),
+      tsvCell(item.mnemonic),
+      formatTags(item.tags)
+    ].join('\t'));
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const exportAnkiTsv = (items: VocabularyItem[], deckName?: string) => {
+  download(new Blob([buildAnkiTsv(items, ankiDeckName(deckName))], { type: 'text/tab-separated-values;charset=utf-8' }), `memoralink_anki${fileSlug(deckName)}.txt`);
+};
@@ -1,3 +1,18 @@
+// Helper to select the best English voice
+const getBestVoice = (voices: SpeechSynthesisVoice[]) => {
+  return voices.find(v => v.name.includes('Google US English')) // Android/Chrome best
+      || voices.find(v => v.name === 'Samantha') // iOS best
+      || voices.find(v => v.lang === 'en-US')
+      || voices.find(v => v.lang.startsWith('en'));
+};
+
+const createUtterance = (text: string, rate: number) => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  utterance.rate = rate;
+  utterance.volume = 1.0;
+  return utterance;
+};
 
 export const playTextToSpeech = (text: string, rate: number = 0.8) => {
   if (!('speechSynthesis' in window)) {
@@ -12,18 +27,7 @@ export const playTextToSpeech = (text: string, rate: number = 0.8) => {
     synth.cancel();
   }
 
-  const utterance = new SpeechSynthesisUtterance(text);
-  utterance.lang = 'en-US';
-  utterance.rate = rate;
-  utterance.volume = 1.0;
-
-  // Helper to select the best English voice
-  const getBestVoice = (voices: SpeechSynthesisVoice[]) => {
-    return voices.find(v => v.name.includes('Google US English')) // Android/Chrome best
-        || voices.find(v => v.name === 'Samantha') // iOS best
-        || voices.find(v => v.lang === 'en-US')
-        || voices.find(v => v.lang.startsWith('en'));
-  };
+  const utterance = createUtterance(text, rate);
 
   // Attempt to load voices
   let voices = synth.getVoices();
@@ -66,3 +70,63 @@ export const playTextToSpeech = (text: string, rate: number = 0.8) => {
     synth.speak(utterance);
   }, 10);
 };
+
+// The end of a sentence: closing punctuation, any closing quotes or brackets, then whitespace.
+// Requiring the whitespace keeps "3.5" or a half-streamed "e.g" from counting as an end.
+const SENTENCE_END = /[.!?…]["'”’)\]]*\s+/;
+
+/**
+ * Speak text that arrives in pieces, such as a streamed chat reply. Pass the text so far to `update`:
+ * each sentence is queued as soon as it is complete, so speech starts with the first one rather than
+ * after the whole reply. `finish` speaks whatever is left.
+ */
+export const createStreamingSpeaker = (rate: number = 0.9) => {
+  const supported = 'speechSynthesis' in window;
+  const synth = supported ? window.speechSynthesis : null;
+  let queuedUpTo = 0; // Characters of the text already queued
+  let cancelled = false;
+  // Keep references so queued utterances aren't garbage collected before they play (see above)
+  const utterances: SpeechSynthesisUtterance[] = [];
+
+  if (synth?.speaking) synth.cancel();
+
+  const queue = (piece: string) => {
+    const text = piece.trim();
+    if (!synth || cancelled || !text) return;
+    const utterance = createUtterance(text, rate);
+    const voice = getBestVoice(synth.getVoices());
+    if (voice) utterance.voice = voice;
+    // Both events can fire for one utterance; only the first removes it
+    utterance.onend = utterance.onerror = () => {
+      const index = utterances.indexOf(utterance);
+      if (index !== -1) utterances.splice(index, 1);
+    };
+    utterances.push(utterance);
+    synth.speak(utterance);
+  };
+
+  return {
+    update(textSoFar: string) {
+      const ends = new RegExp(SENTENCE_END.source, 'g');
+      ends.lastIndex = queuedUpTo;
+      let end = queuedUpTo;
+      for (let match = ends.exec(textSoFar); match; match = ends.exec(textSoFar)) {
+        end = match.index + match[0].length;
+      }
+      if (end > queuedUpTo) {
+        queue(textSoFar.slice(queuedUpTo, end));
+        queuedUpTo = end;
+      }
+    },
+    finish(fullText: string) {
+      queue(fullText.slice(queuedUpTo));
+      queuedUpTo = fullText.length;
+    },
+    cancel() {
+      cancelled = true;
+      synth?.cancel();
+    }
+  };
+};
+
+export type StreamingSpeaker = ReturnType<typeof createStreamingSpeaker>;
@@ -0,0 +1,267 @@
+import { VocabularyItem, WritingEntry, Deck } from "../types";
+import { deriveKey, encryptJson, decryptJson, KdfParams, EncryptedPayload } from "./cryptoService";
+
+export const BACKUP_VERSION = 2;
+
+export interface BackupFile {
+  version: number;
+  date: string;
+  vocabulary: VocabularyItem[];
+  writingLogs: WritingEntry[];
+  profile?: string; // Name of the learner profile the backup was taken from
+  decks?: Deck[]; // Decks the cards' deckIds point at
+}
+
+// How a record present in both the library and the backup is settled
+export type ConflictResolution = 'merge' | 'replace' | 'keep-newest';
+
+export interface RecordConflict<T> {
+  current: T;
+  incoming: T;
+}
+
+export interface RecordDiff<T> {
+  added: T[];
+  changed: RecordConflict<T>[];
+  identical: T[];
+}
+
+export interface RestorePlan {
+  backup: BackupFile;
+  newDecks: Deck[]; // Decks in the backup that this library doesn't have (matched by id)
+  vocabulary: RecordDiff<VocabularyItem>;
+  writing: RecordDiff<WritingEntry>;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export const createBackup = (vocabulary: VocabularyItem[], writingLogs: WritingEntry[], profile?: string, decks: Deck[] = []): BackupFile => ({
+  version: BACKUP_VERSION,
+  date: new Date().toISOString(),
+  vocabulary,
+  writingLogs,
+  ...(profile ? { profile } : {}),
+  // Covers are not part of backups
+  ...(decks.length ? { decks: decks.map(({ coverImageId, ...deck }) => deck) } : {})
+});
+
+// Backup files are untrusted input: fields are checked before they are relied on
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const recordsIn = (value: unknown): RawRecord[] => Array.isArray(value) ? value.filter(isRecord) : [];
+
+const nonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * v1 backups (and files without a version) predate record ids and timestamps.
+ * Their arrays are newest-first, so timestamps are back-filled from the backup date to keep that order.
+ */
+const upgradeV1 = (data: RawRecord): RawRecord => {
+  const date = typeof data.date === 'string' ? data.date : '';
+  const base = Date.parse(date) || Date.now();
+  const stamp = (index: number) => new Date(base - index).toISOString();
+  const withTimestamps = (record: RawRecord, index: number): RawRecord => ({
+    ...record,
+    createdAt: nonEmptyString(record.createdAt) ? record.createdAt : stamp(index),
+    updatedAt: nonEmptyString(record.updatedAt) ? record.updatedAt : stamp(index)
+  });
+  return {
+    version: 2,
+    date: date || new Date(base).toISOString(),
+    vocabulary: recordsIn(data.vocabulary).map(withTimestamps),
+    writingLogs: recordsIn(data.writingLogs).map(withTimestamps)
+  };
+};
+
+// Upgrade steps keyed by the version they upgrade from; each moves the file up one version
+const UPGRADES: Record<number, (data: RawRecord) => RawRecord> = {
+  1: upgradeV1
+};
+
+// Only the fields every record needs are checked; the rest are optional and default in the views
+const isValidWord = (item: RawRecord): item is RawRecord & VocabularyItem => nonEmptyString(item.word);
+const isValidEntry = (entry: RawRecord): entry is RawRecord & WritingEntry => typeof entry.id === 'string' && typeof entry.originalText === 'string';
+const isValidDeck = (deck: RawRecord): deck is RawRecord & Deck => typeof deck.id === 'string' && nonEmptyString(deck.name);
+
+/**
+ * Validate a parsed backup file and upgrade older formats to the current version.
+ */
+export const parseBackup = (raw: unknown): BackupFile => {
+  if (!isRecord(raw)) {
+    throw new BackupFormatError("This file is not a MemoraLink backup.");
+  }
+  let data = raw;
+  if (!Array.isArray(data.vocabulary) && !Array.isArray(data.writingLogs)) {
+    throw new BackupFormatError("The backup contains no vocabulary or writing logs.");
+  }
+
+  // Files exported before versioning was added are treated as v1
+  let version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupFormatError(`Unrecognised backup version: ${JSON.stringify(data.version)}`);
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupFormatError(`This backup was made by a newer version of MemoraLink (v${version}). Please update the app first.`);
+  }
+
+  while (version < BACKUP_VERSION) {
+    const upgrade = UPGRADES[version];
+    if (!upgrade) {
+      throw new BackupFormatError(`No upgrade path from backup version ${version}.`);
+    }
+    data = upgrade(data);
+    version++;
+  }
+
+  return {
+    version: BACKUP_VERSION,
+    date: typeof data.date === 'string' ? data.date : new Date().toISOString(),
+    vocabulary: recordsIn(data.vocabulary).filter(isValidWord),
+    writingLogs: recordsIn(data.writingLogs).filter(isValidEntry),
+    ...(typeof data.profile === 'string' ? { profile: data.profile } : {}),
+    ...(Array.isArray(data.decks) ? { decks: recordsIn(data.decks).filter(isValidDeck) } : {})
+  };
+};
+
+// A backup encrypted with the vault passphrase. The KDF parameters travel with it,
+// so the passphrase alone is enough to open it on another device.
+export interface EncryptedBackupFile {
+  format: 'memoralink-encrypted-backup';
+  version: 1;
+  kdf: KdfParams;
+  payload: EncryptedPayload;
+}
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackupFile =>
+  isRecord(raw) && raw.format === 'memoralink-encrypted-backup' && isRecord(raw.kdf) && isRecord(raw.payload);
+
+export const encryptBackup = async (backup: BackupFile, key: CryptoKey, kdf: KdfParams): Promise<EncryptedBackupFile> => ({
+  format: 'memoralink-encrypted-backup',
+  version: 1,
+  kdf,
+  payload: await encryptJson(backup, key)
+});
+
+/**
+ * Decrypt an encrypted backup and run it through the usual validation. Throws WrongPassphraseError on a bad passphrase.
+ */
+export const decryptBackup = async (file: EncryptedBackupFile, passphrase: string): Promise<BackupFile> => {
+  const key = await deriveKey(passphrase, file.kdf);
+  return parseBackup(await decryptJson(file.payload, key));
+};
+
+// Storage bookkeeping fields are ignored when deciding whether two records differ.
+// Images are too: stored cards reference a blob by id while backups carry a data URL.
+const contentOf = (record: object) => {
+  const { id, createdAt, updatedAt, image, imageId, altImageIds, ...rest } = record as RawRecord;
+  return JSON.stringify(Object.keys(rest).sort().map(key => [key, rest[key]]));
+};
+
+const diffRecords = <T extends object>(current: T[], incoming: T[], keyOf: (record: T) => string): RecordDiff<T> => {
+  const byKey = new Map(current.map(record => [keyOf(record), record]));
+  const diff: RecordDiff<T> = { added: [], changed: [], identical: [] };
+
+  incoming.forEach(record => {
+    const existing = byKey.get(keyOf(record));
+    if (!existing) {
+      diff.added.push(record);
+    } else if (contentOf(existing) === contentOf(record)) {
+      diff.identical.push(record);
+    } else {
+      diff.changed.push({ current: existing, incoming: record });
+    }
+  });
+  return diff;
+};
+
+/**
+ * Compare a backup against the current library. Words are matched by their text, writing logs and decks by id.
+ */
+export const planRestore = (backup: BackupFile, vocabulary: VocabularyItem[], writingLogs: WritingEntry[], decks: Deck[] = []): RestorePlan => ({
+  backup,
+  newDecks: (backup.decks || []).filter(deck => !decks.some(existing => existing.id === deck.id)),
+  vocabulary: diffRecords(vocabulary, backup.vocabulary, item => item.word),
+  writing: diffRecords(writingLogs, backup.writingLogs, entry => entry.id)
+});
+
+const timeOf = (record: { updatedAt?: string, createdAt?: string }) => Date.parse(record.updatedAt || record.createdAt || '') || 0;
+
+// Copy of `current` with its blank fields taken from `incoming`
+const fillBlanks = <T extends object>(current: T, incoming: T, isBlank: (value: unknown) => boolean): T => {
+  const merged = { ...current };
+  (Object.keys(incoming) as (keyof T)[]).forEach(key => {
+    if (isBlank(merged[key])) merged[key] = incoming[key];
+  });
+  return merged;
+};
+
+// Field-level merge: keep current values, fill blanks from the backup, union tags
+export const mergeVocabularyItems = (current: VocabularyItem, incoming: VocabularyItem): VocabularyItem => {
+  const merged = fillBlanks(current, incoming, value => value === undefined || value === null || value === '');
+  merged.tags = Array.from(new Set([...(current.tags || []), ...(incoming.tags || [])]));
+  merged.deckIds = Array.from(new Set([...(current.deckIds || []), ...(incoming.deckIds || [])]));
+
+  // Keep whichever review history is more recent
+  const currentReviewed = Date.parse(current.review?.lastReviewed || '') || 0;
+  const incomingReviewed = Date.parse(incoming.review?.lastReviewed || '') || 0;
+  if (incomingReviewed > currentReviewed) merged.review = incoming.review;
+
+  // A card that already has a stored image keeps it
+  if (current.imageId) delete merged.image;
+
+  return merged;
+};
+
+const mergeWritingEntries = (current: WritingEntry, incoming: WritingEntry): WritingEntry => {
+  return fillBlanks(current, incoming, value => value === undefined || value === '');
+};
+
+const resolve = <T extends { id?: string, createdAt?: string, updatedAt?: string }>(
+  conflict: RecordConflict<T>,
+  resolution: ConflictResolution,
+  merge: (current: T, incoming: T) => T
+): T => {
+  const { current, incoming } = conflict;
+  let result: T;
+  if (resolution === 'replace') {
+    result = incoming;
+  } else if (resolution === 'keep-newest') {
+    result = timeOf(incoming) > timeOf(current) ? incoming : current;
+  } else {
+    // A merge is a new edit, so let storage stamp a fresh updatedAt
+    result = { ...merge(current, incoming), updatedAt: undefined };
+  }
+  // The stored record keeps its identity whichever content wins
+  return { ...result, id: current.id, createdAt: current.createdAt };
+};
+
+/**
+ * Turn a restore plan and the user's choices into the records that need writing.
+ * `vocabResolutions` and `writingResolutions` are indexed like `plan.*.changed`.
+ */
+export const applyRestorePlan = (
+  plan: RestorePlan,
+  vocabResolutions: ConflictResolution[],
+  writingResolutions: ConflictResolution[]
+): { vocabulary: VocabularyItem[], writingLogs: WritingEntry[] } => {
+  // Backup ids may collide with unrelated local records, so new words get fresh ids
+  const newWords = plan.vocabulary.added.map(({ id, ...item }) => item as VocabularyItem);
+
+  return {
+    vocabulary: [
+      ...newWords,
+      ...plan.vocabulary.changed.map((conflict, i) => resolve(conflict, vocabResolutions[i] || 'merge', mergeVocabularyItems))
+    ],
+    writingLogs: [
+      ...plan.writing.added,
+      ...plan.writing.changed.map((conflict, i) => resolve(conflict, writingResolutions[i] || 'merge', mergeWritingEntries))
+    ]
+  };
+};
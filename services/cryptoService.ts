@@ -0,0 +1,106 @@
+// AES-GCM with a PBKDF2-derived key, all through WebCrypto
+export const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 ciphertext including the GCM tag
+}
+
+export interface KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  salt: string; // base64
+  iterations: number;
+}
+
+export class VaultLockedError extends Error {
+  constructor(message: string = "The library is encrypted and locked. Unlock it with your passphrase first.") {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor(message: string = "Incorrect passphrase.") {
+    super(message);
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const createKdfParams = (): KdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+  iterations: PBKDF2_ITERATIONS
+});
+
+export const deriveKey = async (passphrase: string, params: KdfParams): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: params.hash, salt: fromBase64(params.salt), iterations: params.iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (value: unknown, key: CryptoKey): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt a payload. GCM authentication fails on a wrong key, which surfaces as WrongPassphraseError.
+ */
+export const decryptJson = async <T>(payload: EncryptedPayload, key: CryptoKey): Promise<T> => {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// In-memory vault state for the active profile. The key never touches storage.
+let vaultEnabled = false;
+let vaultKey: CryptoKey | null = null;
+
+export const vaultState = {
+  isEnabled: () => vaultEnabled,
+  isUnlocked: () => !vaultEnabled || vaultKey !== null,
+
+  set(enabled: boolean, key: CryptoKey | null) {
+    vaultEnabled = enabled;
+    vaultKey = enabled ? key : null;
+  },
+
+  // The key to seal/unseal records with; throws while locked
+  requireKey(): CryptoKey {
+    if (!vaultKey) throw new VaultLockedError();
+    return vaultKey;
+  },
+
+  reset() {
+    vaultEnabled = false;
+    vaultKey = null;
+  }
+};
@@ -0,0 +1,98 @@
+import { VocabularyItem, MergedSource } from "../types";
+import { lemmaCandidates } from "./lemmatizer";
+import { cardImageIds } from "./storage";
+
+// Text fields the user picks from one of the duplicates when merging
+export const MERGE_FIELDS = ['word', 'phonetic', 'definition', 'chineseTranslation', 'exampleSentence', 'mnemonic', 'context'] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number] | 'image';
+
+// For each field, the id of the card whose value the merged card keeps
+export type MergePicks = Record<MergeField, string>;
+
+const byAge = (a: VocabularyItem, b: VocabularyItem) => (a.createdAt || '').localeCompare(b.createdAt || '');
+
+const hasImage = (item: VocabularyItem) => !!(item.imageId || item.image);
+
+/**
+ * Group cards that are the same word in another case or inflection ("Negotiate", "negotiating").
+ * Each group has at least two cards, oldest first.
+ */
+export const findDuplicateGroups = (items: VocabularyItem[]): VocabularyItem[][] => {
+  const cards = items.filter(item => item.id);
+  // Union-find over card indexes, joined whenever two cards share a candidate lemma
+  const parent = cards.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+    return index;
+  };
+  const firstWithCandidate = new Map<string, number>();
+  cards.forEach((card, index) => {
+    for (const candidate of lemmaCandidates(card.word)) {
+      const other = firstWithCandidate.get(candidate);
+      if (other === undefined) firstWithCandidate.set(candidate, index);
+      else parent[root(index)] = root(other);
+    }
+  });
+
+  const groups = new Map<number, VocabularyItem[]>();
+  cards.forEach((card, index) => {
+    const key = root(index);
+    groups.set(key, [...(groups.get(key) || []), card]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.sort(byAge));
+};
+
+/**
+ * Start from the first card that has something for each field, so nothing filled in is lost by default.
+ */
+export const defaultPicks = (cards: VocabularyItem[]): MergePicks => {
+  const picks = {} as MergePicks;
+  for (const field of MERGE_FIELDS) {
+    picks[field] = (cards.find(card => (card[field] || '').trim()) || cards[0]).id!;
+  }
+  picks.image = (cards.find(hasImage) || cards[0]).id!;
+  return picks;
+};
+
+/**
+ * Combine duplicates into one card. The oldest card's id survives; picked fields come from the chosen
+ * cards, while tags, decks, images and the merge history are unioned. The most recently reviewed
+ * schedule is kept so a merge never resets progress.
+ */
+export const buildMergedCard = (cards: VocabularyItem[], picks: MergePicks): VocabularyItem => {
+  const sorted = [...cards].sort(byAge);
+  const base = sorted[0];
+  const pick = (field: MergeField) => sorted.find(card => card.id === picks[field]) || base;
+  const now = new Date().toISOString();
+
+  const merged: VocabularyItem = { ...base };
+  for (const field of MERGE_FIELDS) {
+    (merged as any)[field] = pick(field)[field];
+  }
+
+  const tags = Array.from(new Set(sorted.flatMap(card => card.tags || [])));
+  const deckIds = Array.from(new Set(sorted.flatMap(card => card.deckIds || [])));
+  merged.tags = tags.length ? tags : undefined;
+  merged.deckIds = deckIds.length ? deckIds : undefined;
+
+  const imageCard = pick('image');
+  merged.imageId = imageCard.imageId;
+  merged.image = imageCard.imageId ? undefined : imageCard.image;
+  const altImageIds = Array.from(new Set(sorted.flatMap(cardImageIds))).filter(id => id !== merged.imageId);
+  merged.altImageIds = altImageIds.length ? altImageIds : undefined;
+
+  const reviewed = sorted
+    .filter(card => card.review)
+    .sort((a, b) => (b.review!.lastReviewed || '').localeCompare(a.review!.lastReviewed || ''));
+  merged.review = reviewed[0]?.review;
+
+  const history: MergedSource[] = [
+    ...sorted.flatMap(card => card.mergedFrom || []),
+    ...sorted.slice(1).map(card => ({ id: card.id!, word: card.word, context: card.context || undefined, createdAt: card.createdAt, source: card.source, mergedAt: now }))
+  ];
+  merged.mergedFrom = history.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+  return merged;
+};
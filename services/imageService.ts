@@ -0,0 +1,137 @@
+import { VocabularyItem, StoredImage, Deck } from "../types";
+import { vocabularyStore, imageStore, deckStore, generateId } from "./storage";
+
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+const FULL_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Scale an image down so its longest side fits `maxDimension`, then re-encode it
+const encode = async (source: ImageBitmap, maxDimension: number, quality: number): Promise<{ blob: Blob, width: number, height: number }> => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const toBlob = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  // Safari can't encode WebP and silently falls back to PNG, which would be larger than the original
+  let blob = await toBlob('image/webp');
+  if (!blob || blob.type !== 'image/webp') {
+    blob = await toBlob('image/jpeg');
+  }
+  if (!blob) throw new Error("Failed to encode image.");
+  return { blob, width, height };
+};
+
+/**
+ * Resize and re-encode an uploaded image, producing the full image and a grid thumbnail.
+ */
+export const compressImage = async (file: Blob): Promise<Omit<StoredImage, 'id' | 'createdAt'>> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const full = await encode(bitmap, MAX_DIMENSION, FULL_QUALITY);
+    const thumb = await encode(bitmap, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+    return { blob: full.blob, thumbnail: thumb.blob, width: full.width, height: full.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Compress and store an image, returning its key in the images store
+const storeImage = async (file: Blob): Promise<string> => {
+  const compressed = await compressImage(file);
+  const id = generateId();
+  await imageStore.put({ ...compressed, id, createdAt: new Date().toISOString() });
+  return id;
+};
+
+/**
+ * Compress an image, store it and point the card at it. Any previous image of the card is removed.
+ * Returns undefined (and drops the new image) if the card was deleted in the meantime.
+ */
+export const attachImage = async (item: VocabularyItem, file: Blob): Promise<VocabularyItem | undefined> => {
+  const id = await storeImage(file);
+  // The stored card may be newer than `item`, so its image is the one being replaced
+  let replaced: string | undefined;
+  const updated = await vocabularyStore.update(item.id!, current => {
+    replaced = current.imageId;
+    const { image, ...rest } = current;
+    return { ...rest, imageId: id };
+  });
+  if (!updated) {
+    await imageStore.delete(id);
+    return undefined;
+  }
+  if (replaced && replaced !== id) {
+    await imageStore.delete(replaced);
+  }
+  return updated;
+};
+
+/**
+ * Set a deck's cover image, replacing any previous one.
+ */
+export const setDeckCover = async (deck: Deck, file: Blob): Promise<Deck> => {
+  const id = await storeImage(file);
+  const updated = await deckStore.put({ ...deck, coverImageId: id });
+  if (deck.coverImageId && deck.coverImageId !== id) {
+    await imageStore.delete(deck.coverImageId);
+  }
+  return updated;
+};
+
+export const hasImage = (item: VocabularyItem) => !!(item.imageId || item.image);
+
+/**
+ * Move inline data-URL images (saved before v3, or brought in by a backup) into the images store.
+ * Returns the number of cards converted.
+ */
+export const migrateInlineImages = async (): Promise<number> => {
+  const items = await vocabularyStore.getAll();
+  let converted = 0;
+  for (const item of items) {
+    if (!item.image) continue;
+    try {
+      await attachImage(item, await dataUrlToBlob(item.image));
+      converted++;
+    } catch (e) {
+      console.error(`Failed to convert image for ${item.word}`, e);
+    }
+  }
+  return converted;
+};
+
+/**
+ * Prepare cards for a backup: either embed each stored image as a data URL or drop images entirely.
+ */
+export const prepareItemsForBackup = async (items: VocabularyItem[], includeImages: boolean): Promise<VocabularyItem[]> => {
+  // Only the main image travels; other images kept from merged duplicates stay on this device
+  return Promise.all(items.map(async ({ image, imageId, altImageIds, ...rest }) => {
+    if (!includeImages) return rest;
+    if (imageId) {
+      const stored = await imageStore.get(imageId);
+      if (stored) return { ...rest, image: await blobToDataUrl(stored.blob) };
+    }
+    return image ? { ...rest, image } : rest;
+  }));
+};
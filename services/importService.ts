@@ -0,0 +1,196 @@
+import { VocabularyItem } from "../types";
+import { normalizeWord } from "./lemmatizer";
+
+export type Delimiter = ',' | ';' | '\t';
+
+// Card fields a spreadsheet column can be mapped to
+export type ImportField = 'word' | 'phonetic' | 'definition' | 'chineseTranslation' | 'exampleSentence' | 'mnemonic' | 'context' | 'tags' | 'ignore';
+
+export const IMPORT_FIELDS: { value: ImportField, label: string }[] = [
+  { value: 'word', label: 'Word' },
+  { value: 'phonetic', label: 'Phonetic' },
+  { value: 'definition', label: 'Definition' },
+  { value: 'chineseTranslation', label: 'Chinese Translation' },
+  { value: 'exampleSentence', label: 'Example Sentence' },
+  { value: 'mnemonic', label: 'Mnemonic' },
+  { value: 'context', label: 'Context' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'ignore', label: '— Ignore —' },
+];
+
+// Fields that can be generated by the AI when a spreadsheet leaves them blank
+export const FILLABLE_FIELDS: (keyof VocabularyItem)[] = ['phonetic', 'definition', 'chineseTranslation', 'exampleSentence', 'mnemonic', 'context', 'tags'];
+
+// Header spellings seen in our own CSV export, the Anki TSV export, Quizlet and common hand-made sheets
+const HEADER_ALIASES: Record<string, ImportField> = {
+  word: 'word', term: 'word', vocabulary: 'word', vocab: 'word', front: 'word', 英文: 'word', 單字: 'word', 单词: 'word',
+  phonetic: 'phonetic', ipa: 'phonetic', pronunciation: 'phonetic', 音標: 'phonetic',
+  definition: 'definition', meaning: 'definition', back: 'definition', 'english definition': 'definition',
+  chinese: 'chineseTranslation', chinesetranslation: 'chineseTranslation', 'chinese translation': 'chineseTranslation', chinese註解: 'chineseTranslation', translation: 'chineseTranslation', 中文: 'chineseTranslation', 翻譯: 'chineseTranslation', 翻译: 'chineseTranslation',
+  example: 'exampleSentence', examplesentence: 'exampleSentence', 'example sentence': 'exampleSentence', sentence: 'exampleSentence', 例句: 'exampleSentence',
+  mnemonic: 'mnemonic', 'memory hook': 'mnemonic', hint: 'mnemonic',
+  context: 'context', usage: 'context',
+  tags: 'tags', tag: 'tags', category: 'tags'
+};
+
+export interface ParsedSheet {
+  delimiter: Delimiter;
+  rows: string[][];
+}
+
+// Excel adds a UTF-8 BOM when saving "CSV UTF-8"
+const stripBom = (text: string) => text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent number of columns.
+ * Quizlet exports default to tabs; our own CSV export uses semicolons.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const sample = text.split(/\r?\n/).filter(l => l.trim() && !l.startsWith('#')).slice(0, 10);
+  if (sample.length === 0) return ',';
+  let best: Delimiter = ',';
+  let bestScore = -1;
+  ([',', ';', '\t'] as Delimiter[]).forEach(delimiter => {
+    const counts = sample.map(line => parseRows(line, delimiter)[0]?.length || 0);
+    const columns = Math.min(...counts);
+    const consistent = counts.every(c => c === counts[0]);
+    const score = columns > 1 ? columns + (consistent ? 100 : 0) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and newlines.
+ */
+export const parseRows = (text: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines and Anki-style "#key:value" header lines
+  return rows
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .filter(r => !(r.length === 1 && r[0].startsWith('#')) && !/^#[a-z ]+:/i.test(r[0] || ''));
+};
+
+export const parseSheet = (rawText: string, delimiter?: Delimiter): ParsedSheet => {
+  const text = stripBom(rawText);
+  const used = delimiter || detectDelimiter(text);
+  return { delimiter: used, rows: parseRows(text, used) };
+};
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+export const looksLikeHeader = (row: string[]): boolean => {
+  return row.filter(cell => HEADER_ALIASES[normaliseHeader(cell)] || HEADER_ALIASES[normaliseHeader(cell).replace(/ /g, '')]).length >= Math.min(2, row.length);
+};
+
+/**
+ * Suggest a field for each column. Without a header row, assume the Quizlet layout: term, definition.
+ */
+export const guessMapping = (firstRow: string[], hasHeader: boolean): ImportField[] => {
+  if (!hasHeader) {
+    return firstRow.map((_, i) => i === 0 ? 'word' : i === 1 ? 'definition' : 'ignore');
+  }
+  const used = new Set<ImportField>();
+  return firstRow.map(cell => {
+    const key = normaliseHeader(cell);
+    const field = HEADER_ALIASES[key] || HEADER_ALIASES[key.replace(/ /g, '')] || 'ignore';
+    if (field !== 'ignore' && used.has(field)) return 'ignore';
+    used.add(field);
+    return field;
+  });
+};
+
+// Comma-style lists keep multi-word tags intact; otherwise assume Anki-style space-separated tags
+const splitTags = (value: string) => value.split(/[,;|]/.test(value) ? /[,;|]/ : /\s+/).map(t => t.trim()).filter(Boolean);
+
+export const rowsToItems = (rows: string[][], mapping: ImportField[]): VocabularyItem[] => {
+  const items: VocabularyItem[] = [];
+  rows.forEach(row => {
+    const item: VocabularyItem = { word: '', definition: '', chineseTranslation: '', exampleSentence: '', mnemonic: '', context: '' };
+    mapping.forEach((field, col) => {
+      const value = (row[col] || '').trim();
+      if (field === 'ignore' || !value) return;
+      if (field === 'tags') {
+        item.tags = [...(item.tags || []), ...splitTags(value)];
+      } else {
+        item[field] = value;
+      }
+    });
+    if (item.word) items.push(item);
+  });
+  return items;
+};
+
+/**
+ * Keep the first row of each word; rows repeating it (in any case or spacing) are dropped.
+ */
+export const uniqueByWord = (items: VocabularyItem[]): VocabularyItem[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalizeWord(item.word);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const getMissingFields = (item: VocabularyItem): (keyof VocabularyItem)[] => {
+  return FILLABLE_FIELDS.filter(field => isBlank(item[field]));
+};
+
+/**
+ * Copy AI-generated values into the blank fields of imported cards only; values from the sheet always win.
+ */
+export const fillMissingFields = (items: VocabularyItem[], generated: VocabularyItem[]): VocabularyItem[] => {
+  const byWord = new Map(generated.map(g => [g.word.trim().toLowerCase(), g]));
+  return items.map(item => {
+    const source = byWord.get(item.word.trim().toLowerCase());
+    if (!source) return item;
+    const filled: VocabularyItem = { ...item };
+    const copy = <K extends keyof VocabularyItem>(field: K) => {
+      if (!isBlank(source[field])) filled[field] = source[field];
+    };
+    getMissingFields(item).forEach(copy);
+    return filled;
+  });
+};
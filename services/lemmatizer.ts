@@ -0,0 +1,112 @@
+// Offline, rule-based lemmatiser for English inflections, used to spot duplicate cards
+// ("Negotiate", "negotiating", "negotiated"). Without a dictionary a suffix can't always be
+// undone unambiguously, so each word maps to a few candidate lemmas and two words match when
+// their candidates overlap.
+
+const IRREGULAR: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have',
+  does: 'do', did: 'do', done: 'do', doing: 'do',
+  went: 'go', gone: 'go', goes: 'go',
+  made: 'make', said: 'say', got: 'get', gotten: 'get',
+  knew: 'know', known: 'know', thought: 'think', took: 'take', taken: 'take',
+  saw: 'see', seen: 'see', came: 'come', gave: 'give', given: 'give',
+  found: 'find', told: 'tell', felt: 'feel', left: 'leave', kept: 'keep',
+  began: 'begin', begun: 'begin', brought: 'bring', bought: 'buy', built: 'build',
+  sent: 'send', spent: 'spend', meant: 'mean', met: 'meet', paid: 'pay',
+  ran: 'run', sat: 'sit', stood: 'stand', understood: 'understand', wrote: 'write', written: 'write',
+  spoke: 'speak', spoken: 'speak', chose: 'choose', chosen: 'choose', drove: 'drive', driven: 'drive',
+  ate: 'eat', eaten: 'eat', fell: 'fall', fallen: 'fall', forgot: 'forget', forgotten: 'forget',
+  led: 'lead', lost: 'lose', held: 'hold', heard: 'hear', taught: 'teach', caught: 'catch',
+  sought: 'seek', fought: 'fight', grew: 'grow', grown: 'grow', drew: 'draw', drawn: 'draw',
+  rose: 'rise', risen: 'rise', shook: 'shake', shaken: 'shake', broke: 'break', broken: 'break',
+  won: 'win', wore: 'wear', worn: 'wear', sold: 'sell', slept: 'sleep', dealt: 'deal',
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth',
+  mice: 'mouse', geese: 'goose', analyses: 'analysis', crises: 'crisis', criteria: 'criterion',
+  phenomena: 'phenomenon', data: 'datum', lives: 'life', knives: 'knife', wives: 'wife',
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad'
+};
+
+const VOWELS = /[aeiou]/;
+// Shortest word part a suffix is stripped from, so "bring", "bus" and "is" stay whole
+const MIN_STEM = 3;
+
+/**
+ * Normalise a word or phrase for comparison: Unicode form, case, apostrophes, whitespace and
+ * surrounding punctuation.
+ */
+export const normalizeWord = (word: string): string => word
+  .normalize('NFKC')
+  .toLowerCase()
+  .replace(/[‘’ʼ]/g, "'")
+  .replace(/\s+/g, ' ')
+  .trim()
+  .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Stems left after removing -ing or -ed: as is (visit), with the doubled consonant undone (run),
+// or with a silent e put back (negotiate)
+const verbStems = (stem: string): string[] => {
+  const stems: string[] = [];
+  if (stem.length >= 4 && VOWELS.test(stem)) stems.push(stem);
+  if (/([^aeiouls])\1$/.test(stem) && stem.length >= 4) stems.push(stem.slice(0, -1));
+  if (stem.length >= 2 && VOWELS.test(stem)) stems.push(`${stem}e`);
+  if (stem.endsWith('i') && stem.length >= 3) stems.push(`${stem.slice(0, -1)}y`); // studied -> study
+  return stems;
+};
+
+const tokenCandidates = (token: string): string[] => {
+  const candidates = new Set([token]);
+  if (IRREGULAR[token]) candidates.add(IRREGULAR[token]);
+
+  if (token.endsWith('ing') && token.length >= MIN_STEM + 2) {
+    verbStems(token.slice(0, -3)).forEach(s => candidates.add(s));
+    if (token.endsWith('ying')) candidates.add(`${token.slice(0, -4)}ie`); // lying -> lie
+  }
+  if (token.endsWith('ed') && token.length > MIN_STEM + 1) {
+    verbStems(token.slice(0, -2)).forEach(s => candidates.add(s));
+    candidates.add(token.slice(0, -1)); // used -> use
+  }
+  if (token.endsWith('ies') && token.length > 4) {
+    candidates.add(`${token.slice(0, -3)}y`);
+  } else if (/(ss|sh|ch|x|z|o)es$/.test(token)) {
+    candidates.add(token.slice(0, -2)); // boxes -> box
+    candidates.add(token.slice(0, -1)); // shoes -> shoe
+  } else if (token.endsWith('s') && !/(ss|us|is)$/.test(token) && token.length > MIN_STEM) {
+    candidates.add(token.slice(0, -1));
+  }
+  if (token.endsWith("'s")) candidates.add(token.slice(0, -2));
+  return Array.from(candidates);
+};
+
+// Phrases can't multiply out forever
+const MAX_PHRASE_CANDIDATES = 64;
+
+/**
+ * Every form `word` might be an inflection of, including its normalised self.
+ * Phrases ("looking forward") combine the candidates of each word.
+ */
+export const lemmaCandidates = (word: string): string[] => {
+  const tokens = normalizeWord(word).split(' ').filter(Boolean);
+  if (tokens.length === 0) return [];
+  let phrases = [''];
+  for (const token of tokens) {
+    const options = tokenCandidates(token);
+    phrases = phrases.flatMap(prefix => options.map(option => prefix ? `${prefix} ${option}` : option)).slice(0, MAX_PHRASE_CANDIDATES);
+  }
+  return phrases;
+};
+
+// Anything that can answer "is this word already there?"
+export interface WordMatcher {
+  has(word: string): boolean;
+}
+
+/**
+ * Build a matcher over a list of words that treats case and spacing variants as the same word.
+ * Inflections are not matched: the suffix rules also join different words ("evening" and "even"),
+ * so those pairs are left to the duplicate finder, where the user decides.
+ */
+export const createWordMatcher = (words: string[]): WordMatcher => {
+  const known = new Set(words.map(normalizeWord));
+  return { has: (word: string) => known.has(normalizeWord(word)) };
+};
@@ -0,0 +1,186 @@
+import { useSyncExternalStore } from 'react';
+import { VocabularyItem, WritingEntry, TrashEntry, Deck } from "../types";
+import { vocabularyStore, writingStore, trashStore, deckStore, onStoreChange, PutOptions, StoreCategory, ChangedIds } from "./storage";
+
+export interface LibraryState {
+  vocabulary: VocabularyItem[];
+  writing: WritingEntry[];
+  decks: Deck[]; // Sorted by name
+  isLoaded: boolean;
+  error?: string;
+}
+
+const EMPTY_STATE: LibraryState = { vocabulary: [], writing: [], decks: [], isLoaded: false };
+
+// One copy of the library shared by every view. It is loaded while anyone is subscribed; when a write
+// commits, in this tab or another tab on the same profile, just the records it touched are read again.
+let state: LibraryState = EMPTY_STATE;
+const listeners = new Set<() => void>();
+let stopWatching: (() => void) | null = null;
+// Bumped when the last subscriber leaves, so work queued before that is dropped
+let generation = 0;
+// Loads and refreshes run one at a time, in the order the writes committed
+let queue: Promise<void> = Promise.resolve();
+
+type LibraryCategory = Extract<StoreCategory, 'vocabulary' | 'writing' | 'decks'>;
+
+const LIBRARY_CATEGORIES: LibraryCategory[] = ['vocabulary', 'writing', 'decks'];
+
+const setState = (next: LibraryState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const byName = (a: Deck, b: Deck) => a.name.localeCompare(b.name);
+// The order the stores list records in
+const newestFirst = (a: { createdAt?: string }, b: { createdAt?: string }) => (b.createdAt || '').localeCompare(a.createdAt || '');
+
+// `list` with the records in `ids` replaced by their stored versions, or removed if they are gone
+const withChanges = <T extends { id?: string }>(list: T[], ids: string[], stored: (T | undefined)[], order: (a: T, b: T) => number): T[] => {
+  const changed = new Set(ids);
+  return [...list.filter(item => !changed.has(item.id!)), ...stored.filter((item): item is T => !!item)].sort(order);
+};
+
+const enqueue = (task: () => Promise<Partial<LibraryState>>): Promise<void> => {
+  const taskGeneration = generation;
+  queue = queue.then(async () => {
+    if (taskGeneration !== generation) return;
+    try {
+      const changes = await task();
+      if (taskGeneration === generation) setState({ ...state, ...changes, isLoaded: true, error: undefined });
+    } catch (e: any) {
+      console.error("Failed to load library", e);
+      if (taskGeneration === generation) setState({ ...state, isLoaded: true, error: e.message });
+    }
+  });
+  return queue;
+};
+
+const readAll = async (): Promise<Partial<LibraryState>> => {
+  const [vocabulary, writing, decks] = await Promise.all([vocabularyStore.getAll(), writingStore.getAll(), deckStore.getAll()]);
+  return { vocabulary, writing, decks: decks.sort(byName) };
+};
+
+const load = () => enqueue(readAll);
+
+// Re-read what a write touched: the listed records, or a whole store when the write listed none
+const refresh = (categories: LibraryCategory[], changedIds: ChangedIds) => enqueue(async () => {
+  // There is nothing reliable to patch after a failed load
+  if (state.error) return readAll();
+  const changes: Partial<LibraryState> = {};
+  for (const category of categories) {
+    const ids = changedIds[category];
+    if (category === 'vocabulary') {
+      changes.vocabulary = ids
+        ? withChanges(state.vocabulary, ids, await vocabularyStore.getMany(ids), newestFirst)
+        : await vocabularyStore.getAll();
+    } else if (category === 'writing') {
+      changes.writing = ids
+        ? withChanges(state.writing, ids, await writingStore.getMany(ids), newestFirst)
+        : await writingStore.getAll();
+    } else {
+      changes.decks = ids
+        ? withChanges(state.decks, ids, await deckStore.getMany(ids), byName)
+        : (await deckStore.getAll()).sort(byName);
+    }
+  }
+  return changes;
+});
+
+export const libraryStore = {
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    if (!stopWatching) {
+      stopWatching = onStoreChange((categories, changedIds) => {
+        const changed = LIBRARY_CATEGORIES.filter(category => categories.includes(category));
+        if (changed.length > 0) refresh(changed, changedIds);
+      });
+      load();
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size > 0 || !stopWatching) return;
+      // Nobody is watching (e.g. the vault was locked): drop the decrypted copy
+      stopWatching();
+      stopWatching = null;
+      generation++;
+      state = EMPTY_STATE;
+    };
+  },
+
+  getState(): LibraryState {
+    return state;
+  },
+
+  reload(): Promise<void> {
+    return load();
+  },
+
+  /**
+   * Save a word unless the library already has it. Returns false for duplicates.
+   * With a `deckId`, the word is also put into that deck (an existing card just joins it).
+   */
+  async saveWord(item: VocabularyItem, deckId?: string): Promise<boolean> {
+    if (deckId) {
+      await vocabularyStore.addToDeck(item, deckId);
+      return true;
+    }
+    return !!(await vocabularyStore.addIfMissing(item));
+  },
+
+  async updateWord(id: string, updater: (item: VocabularyItem) => VocabularyItem): Promise<VocabularyItem | undefined> {
+    return vocabularyStore.update(id, updater);
+  },
+
+  async putWords(items: VocabularyItem[], options?: PutOptions): Promise<VocabularyItem[]> {
+    return vocabularyStore.putMany(items, options);
+  },
+
+  async setWordDecks(id: string, deckIds: string[]): Promise<VocabularyItem | undefined> {
+    return vocabularyStore.update(id, item => ({ ...item, deckIds }));
+  },
+
+  /**
+   * Save a card merged from duplicates and move the duplicates it replaces to the trash.
+   */
+  async mergeWords(merged: VocabularyItem, duplicateIds: string[]): Promise<VocabularyItem> {
+    return vocabularyStore.merge(merged, duplicateIds);
+  },
+
+  async saveDeck(deck: Deck): Promise<Deck> {
+    return deckStore.put(deck);
+  },
+
+  async putDecks(decks: Deck[], options?: PutOptions): Promise<Deck[]> {
+    return deckStore.putMany(decks, options);
+  },
+
+  async deleteDeck(id: string): Promise<void> {
+    return deckStore.delete(id);
+  },
+
+  async saveWritingEntry(entry: WritingEntry): Promise<WritingEntry> {
+    return writingStore.put(entry);
+  },
+
+  async putWritingEntries(entries: WritingEntry[], options?: PutOptions): Promise<WritingEntry[]> {
+    return writingStore.putMany(entries, options);
+  },
+
+  async deleteWord(id: string): Promise<TrashEntry | undefined> {
+    return trashStore.moveToTrash('vocabulary', id);
+  },
+
+  async deleteWritingEntry(id: string): Promise<TrashEntry | undefined> {
+    return trashStore.moveToTrash('writing', id);
+  },
+
+  async restoreFromTrash(id: string): Promise<TrashEntry | undefined> {
+    return trashStore.restore(id);
+  }
+};
+
+/**
+ * The shared library, re-rendering the calling component whenever it changes.
+ */
+export const useLibrary = (): LibraryState => useSyncExternalStore(libraryStore.subscribe, libraryStore.getState);
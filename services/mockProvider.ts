@@ -0,0 +1,199 @@
+import { MockProviderSettings, VocabularyItem, WritingAnalysis } from "../types";
+import type { AiProviderClient, JsonRequest, ModelTier } from "./aiProviders";
+import { runAiRequest, AiCallOptions, AiHttpError, AiRequestError } from "./aiRequest";
+
+// An offline provider for development and demos: no key, no network. Answers are fixtures that depend
+// only on the request, so the same input always gives the same cards, analysis or chat reply. Latency
+// and failures can be simulated to exercise loading states, retries and the JSON repair prompt.
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+// MOCK_AI=true in .env.local starts every profile on the mock provider
+export const IS_MOCK_FORCED = !!process.env.MOCK_AI && process.env.MOCK_AI !== 'false';
+
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = { latencyMs: 800, failEvery: 0, failure: 'server' };
+
+let settings: MockProviderSettings = DEFAULT_MOCK_SETTINGS;
+
+// Set from the active profile's settings
+export const configureMockProvider = (changes: Partial<MockProviderSettings>) => {
+  settings = { ...DEFAULT_MOCK_SETTINGS, ...changes };
+};
+
+export const getMockProviderSettings = (): MockProviderSettings => settings;
+
+const MOCK_MODELS: Record<ModelTier, string> = { fast: 'mock-fast', strong: 'mock-strong' };
+
+// Delay between streamed words in chat replies, and between streamed pieces of JSON replies
+const WORD_INTERVAL_MS = 40;
+const JSON_CHUNK_CHARS = 24;
+
+const FIXTURE_CARDS: VocabularyItem[] = [
+  { word: 'leverage', phonetic: '/ˈlɛvərɪdʒ/', definition: 'To use something you have to gain an advantage.', chineseTranslation: '利用；槓桿作用', exampleSentence: 'We can leverage our existing customers to reach new markets.', mnemonic: 'A tiny ant uses a giant crowbar to lift an elephant off a stack of gold coins.', context: 'Business', tags: ['Business', 'Strategy'] },
+  { word: 'mitigate', phonetic: '/ˈmɪtɪɡeɪt/', definition: 'To make something bad less severe.', chineseTranslation: '減輕；緩和', exampleSentence: 'The new backup system mitigates the risk of data loss.', mnemonic: 'A knight in oven mitts catches falling meteors so they land softly.', context: 'Formal', tags: ['Risk', 'Formal'] },
+  { word: 'stakeholder', phonetic: '/ˈsteɪkhoʊldər/', definition: 'A person with an interest in a project or business.', chineseTranslation: '持份者；利益相關者', exampleSentence: 'Every stakeholder was invited to review the plan.', mnemonic: 'A crowd of people each holding a giant steak around a conference table.', context: 'Business', tags: ['Business', 'People'] },
+  { word: 'deadline', phonetic: '/ˈdɛdlaɪn/', definition: 'The latest time by which something must be done.', chineseTranslation: '截止日期', exampleSentence: 'The deadline for the report is Friday at noon.', mnemonic: 'A red laser line on the office floor that beeps louder as the clock ticks.', context: 'Workplace', tags: ['Time', 'Workplace'] },
+  { word: 'negotiate', phonetic: '/nɪˈɡoʊʃieɪt/', definition: 'To discuss something to reach an agreement.', chineseTranslation: '談判；協商', exampleSentence: 'They negotiated a lower price for the bulk order.', mnemonic: 'Two cats in suits pushing a plate of fish back and forth across a desk.', context: 'Business', tags: ['Business', 'Communication'] },
+  { word: 'feasible', phonetic: '/ˈfiːzəbəl/', definition: 'Possible and practical to do.', chineseTranslation: '可行的', exampleSentence: 'Is it feasible to finish the project by June?', mnemonic: 'An engineer pig checks a bridge made of noodles and gives it a thumbs up.', context: 'Formal', tags: ['Planning'] },
+  { word: 'itinerary', phonetic: '/aɪˈtɪnəreri/', definition: 'A planned route or list of places to visit on a journey.', chineseTranslation: '行程', exampleSentence: 'Our itinerary includes three days in Kyoto.', mnemonic: 'A paper map unrolls into a road that a suitcase walks along by itself.', context: 'Travel', tags: ['Travel'] },
+  { word: 'reluctant', phonetic: '/rɪˈlʌktənt/', definition: 'Unwilling and hesitant.', chineseTranslation: '不情願的', exampleSentence: 'He was reluctant to share his notes.', mnemonic: 'A turtle dragging its feet into a dentist office, shell half closed.', context: 'Everyday', tags: ['Feelings'] },
+  { word: 'comprehensive', phonetic: '/ˌkɒmprɪˈhɛnsɪv/', definition: 'Including all or nearly all parts of something.', chineseTranslation: '全面的', exampleSentence: 'The guide gives a comprehensive overview of the city.', mnemonic: 'An owl librarian hugging every book in the library at once.', context: 'Formal', tags: ['Description'] },
+  { word: 'allocate', phonetic: '/ˈæləkeɪt/', definition: 'To give a share of something for a purpose.', chineseTranslation: '分配', exampleSentence: 'We allocated half the budget to marketing.', mnemonic: 'A robot chef slicing a pizza and sliding each slice to a labelled team.', context: 'Business', tags: ['Business', 'Money'] },
+  { word: 'resilient', phonetic: '/rɪˈzɪliənt/', definition: 'Able to recover quickly from difficulties.', chineseTranslation: '有韌力的', exampleSentence: 'Small businesses proved resilient during the downturn.', mnemonic: 'A rubber duck bouncing back up every time a wave pushes it under.', context: 'Everyday', tags: ['Character'] },
+  { word: 'clarify', phonetic: '/ˈklærɪfaɪ/', definition: 'To make something easier to understand.', chineseTranslation: '澄清；闡明', exampleSentence: 'Could you clarify what you mean by "soon"?', mnemonic: 'A wizard wiping a foggy window until a clear city skyline appears.', context: 'Communication', tags: ['Communication'] }
+];
+
+const CHAT_FOLLOW_UPS = [
+  "That's a good start. Could you tell me a bit more about it?",
+  "Nice. How would you say that more formally, for example in a meeting?",
+  "Interesting! What happened next?",
+  "Good. Can you give me an example from your own experience?",
+  "I see. What would you do differently next time?"
+];
+
+// Small, stable string hash for picking fixtures
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (Math.imul(31, h) + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const pick = <T>(items: T[], seed: string, count: number): T[] => {
+  const start = hash(seed) % items.length;
+  return Array.from({ length: Math.min(count, items.length) }, (_, i) => items[(start + i) % items.length]);
+};
+
+const cardFor = (word: string): VocabularyItem => {
+  const fixture = FIXTURE_CARDS.find(card => card.word === word.toLowerCase());
+  if (fixture) return fixture;
+  return {
+    word,
+    phonetic: '',
+    definition: `A sample definition of "${word}" from the mock provider.`,
+    chineseTranslation: `（示例）${word}`,
+    exampleSentence: `This sentence shows how "${word}" might be used.`,
+    mnemonic: `The word "${word}" written in giant glowing letters across a night sky.`,
+    context: 'Mock',
+    tags: ['Mock']
+  };
+};
+
+// A light clean-up so the "correction" visibly differs from sloppy input
+const tidy = (text: string): string => {
+  const trimmed = text.trim().replace(/\s+/g, ' ').replace(/\bi\b/g, 'I');
+  if (!trimmed) return trimmed;
+  const capitalized = trimmed[0].toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+const fixtureFor = (request: JsonRequest): VocabularyItem[] | WritingAnalysis => {
+  const template = request.template;
+  if (!template) throw new AiRequestError("The mock provider has no fixture for this request.");
+  const { values } = template;
+  switch (template.id) {
+    case 'vocabularyByTopic':
+      return pick(FIXTURE_CARDS, `${values.topic}|${values.difficulty}`, Math.max(1, parseInt(values.count, 10) || 1))
+        .map(card => ({ ...card, tags: [...(card.tags || []), values.topic] }));
+    case 'vocabularyFromList':
+      return values.words.split(',').map(word => word.trim()).filter(Boolean).map(cardFor);
+    case 'writingAnalysis': {
+      const correction = tidy(values.text);
+      return {
+        correction,
+        improvedVersion: correction,
+        explanation: `This is a sample analysis from the mock provider for a "${values.context}" text. Only spacing, capitalisation and the final punctuation were adjusted.`,
+        keyVocabulary: pick(FIXTURE_CARDS, values.text, 2)
+      };
+    }
+  }
+};
+
+// Resolves after `ms`, or rejects as soon as the request is aborted (timeout or Stop)
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(new Error("Aborted"));
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error("Aborted"));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+let calls = 0;
+
+/**
+ * Wait out the simulated latency, then throw the configured failure if this call is due one.
+ * Returns true when the call should answer with malformed JSON instead.
+ */
+const simulate = async (signal: AbortSignal): Promise<boolean> => {
+  await sleep(settings.latencyMs, signal);
+  calls++;
+  if (!settings.failEvery || calls % settings.failEvery !== 0) return false;
+  switch (settings.failure) {
+    case 'server': throw new AiHttpError("Simulated server error", 503);
+    case 'rateLimit': throw new AiHttpError("Simulated rate limit", 429, 2000);
+    case 'auth': throw new AiHttpError("Simulated invalid API key", 401);
+    case 'network': throw new TypeError("Failed to fetch"); // What fetch() throws when offline
+    case 'timeout': return new Promise<boolean>((_, reject) => signal.addEventListener('abort', () => reject(new Error("Aborted")), { once: true }));
+    case 'badJson': return true;
+  }
+};
+
+const usageOf = (tier: ModelTier, inputChars: number, output: string) => ({
+  model: MOCK_MODELS[tier],
+  inputTokens: Math.ceil(inputChars / 4),
+  outputTokens: Math.ceil(output.length / 4)
+});
+
+export const mockProvider: AiProviderClient = {
+  id: MOCK_PROVIDER_ID,
+  label: 'Mock',
+  isConfigured: () => true,
+  modelFor: tier => MOCK_MODELS[tier],
+
+  async generateJson(request, options, onText) {
+    return runAiRequest('Mock', async (signal, progress) => {
+      const malformed = await simulate(signal);
+      const reply = malformed ? "Sorry, here are your results: {not valid json" : JSON.stringify(fixtureFor(request));
+      if (onText) {
+        for (let end = JSON_CHUNK_CHARS; end < reply.length + JSON_CHUNK_CHARS; end += JSON_CHUNK_CHARS) {
+          await sleep(WORD_INTERVAL_MS, signal);
+          progress();
+          onText(reply.slice(0, end));
+        }
+      }
+      options?.onUsage?.(usageOf(request.tier, (request.system || '').length + request.prompt.length, reply));
+      return reply;
+    }, options);
+  },
+
+  chat(systemInstruction, earlier = []) {
+    let turn = earlier.filter(t => t.role === 'user').length;
+    const send = async (msg: string, onText: ((textSoFar: string) => void) | null, options?: AiCallOptions) => {
+      const excerpt = msg.trim().length > 60 ? `${msg.trim().slice(0, 60)}…` : msg.trim();
+      const reply = `(Mock coach) You said: "${excerpt}". ${CHAT_FOLLOW_UPS[(hash(systemInstruction) + turn) % CHAT_FOLLOW_UPS.length]}`;
+      const result = await runAiRequest('Mock', async (signal, progress) => {
+        await simulate(signal);
+        if (onText) {
+          const words = reply.split(' ');
+          for (let i = 1; i <= words.length; i++) {
+            await sleep(WORD_INTERVAL_MS, signal);
+            progress();
+            onText(words.slice(0, i).join(' '));
+          }
+        }
+        options?.onUsage?.(usageOf('fast', systemInstruction.length + msg.length, reply));
+        return reply;
+      }, options);
+      turn++;
+      return result;
+    };
+    return {
+      sendMessage: (msg, options) => send(msg, null, options),
+      sendMessageStream: (msg, onText, options) => send(msg, onText, options)
+    };
+  }
+};
@@ -0,0 +1,93 @@
+import { LearnerProfile, ProfileSettings } from "../types";
+import { storage, generateId, switchProfileDatabase, deleteProfileDatabase, DEFAULT_PROFILE_ID } from "./storage";
+
+// The profile list is tiny and needed before any database is opened, so it lives in localStorage
+const PROFILES_KEY = 'memoralink_profiles';
+// Remembered per tab so a reload doesn't bring the picker back
+const ACTIVE_PROFILE_KEY = 'memoralink_active_profile';
+const SETTINGS_KEY = 'memoralink_settings';
+
+const defaultProfile = (): LearnerProfile => ({ id: DEFAULT_PROFILE_ID, name: 'Me', createdAt: new Date().toISOString() });
+
+const saveProfiles = (profiles: LearnerProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const profileService = {
+  list(): LearnerProfile[] {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    } catch (e) {
+      console.error("Failed to read profiles", e);
+    }
+    return [defaultProfile()];
+  },
+
+  get(id: string): LearnerProfile | undefined {
+    return this.list().find(p => p.id === id);
+  },
+
+  // The profile chosen earlier in this tab, if it still exists
+  getRemembered(): LearnerProfile | undefined {
+    const id = sessionStorage.getItem(ACTIVE_PROFILE_KEY);
+    return id ? this.get(id) : undefined;
+  },
+
+  create(name: string): LearnerProfile {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Please enter a name.");
+    const profiles = this.list();
+    if (profiles.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A profile called "${trimmed}" already exists.`);
+    }
+    const profile: LearnerProfile = { id: generateId(), name: trimmed, createdAt: new Date().toISOString() };
+    saveProfiles([...profiles, profile]);
+    return profile;
+  },
+
+  rename(id: string, name: string): LearnerProfile[] {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Please enter a name.");
+    const profiles = this.list().map(p => p.id === id ? { ...p, name: trimmed } : p);
+    saveProfiles(profiles);
+    return profiles;
+  },
+
+  /**
+   * Delete a profile and its whole database. The last remaining profile can't be deleted.
+   */
+  async remove(id: string): Promise<LearnerProfile[]> {
+    const profiles = this.list();
+    if (profiles.length <= 1) throw new Error("At least one profile is needed.");
+    await deleteProfileDatabase(id);
+    const remaining = profiles.filter(p => p.id !== id);
+    saveProfiles(remaining);
+    if (sessionStorage.getItem(ACTIVE_PROFILE_KEY) === id) sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+    return remaining;
+  },
+
+  /**
+   * Make a profile active: all storage calls from now on read and write its database.
+   */
+  async activate(id: string): Promise<void> {
+    await switchProfileDatabase(id);
+    sessionStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    // Generated-but-unsaved words belong to the previous learner
+    sessionStorage.removeItem('vocab_cached_words');
+  },
+
+  forgetActive() {
+    sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+  },
+
+  async getSettings(): Promise<ProfileSettings> {
+    return (await storage.get<ProfileSettings>(SETTINGS_KEY)) || {};
+  },
+
+  async updateSettings(changes: Partial<ProfileSettings>): Promise<ProfileSettings> {
+    const settings = { ...(await this.getSettings()), ...changes };
+    await storage.set(SETTINGS_KEY, settings);
+    return settings;
+  }
+};
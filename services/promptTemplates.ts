@@ -0,0 +1,212 @@
+import { MnemonicCategory, PromptTemplateId, PromptSettings } from "../types";
+
+// The prompts behind card generation and writing analysis, as named, versioned templates. Users can
+// edit them per profile and pick which kinds of scene mnemonics are built around.
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  // Bump when the built-in text changes, so edited copies can be flagged as based on an older one
+  version: number;
+  system: string;
+  prompt: string;
+  variables: Record<string, string>; // {name} -> what it is filled with
+  sample: Record<string, string>; // Values used for the preview
+}
+
+const MNEMONIC_VARIABLE = 'The enabled mnemonic categories, plus your style note';
+
+const CARD_KEYS = `Required Keys for each object:
+- "word": The vocabulary word.
+- "phonetic": IPA pronunciation.
+- "definition": English definition.
+- "chineseTranslation": Translation/Definition of the word.
+- "exampleSentence": A clear sentence using the word in context.
+- "mnemonic": The vivid visual story from Step 2 (in English).
+- "context": Brief usage context (e.g., Formal, Slang).
+- "tags": Array of related keywords.`;
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  vocabularyByTopic: {
+    id: 'vocabularyByTopic',
+    name: 'Cards by topic',
+    version: 1,
+    system: `Topic: {topic}. Difficulty: {difficulty}.
+Role: You are a Master Memory Coach who connects Pop Culture with Real-World News.
+Task: Provide {count} words.
+
+For the "mnemonic" field:
+Step 1: The Creative Selector. Choose the SINGLE BEST category to create a vivid mental image:
+{mnemonicCategories}
+Step 2: Write the mnemonic as a vivid, descriptive image generation prompt in English that visualizes this scene.
+
+Output Format: Return ONLY a raw JSON array of objects.
+${CARD_KEYS}`,
+    prompt: `Generate {count} vocabulary cards for topic '{topic}'. Ensure exact JSON keys including "exampleSentence". Mnemonics must be in English.`,
+    variables: {
+      topic: 'The chosen or custom topic',
+      count: 'How many words to generate',
+      difficulty: 'Beginner, Intermediate, Advanced...',
+      mnemonicCategories: MNEMONIC_VARIABLE
+    },
+    sample: { topic: 'Business Negotiation', count: '3', difficulty: 'Intermediate' }
+  },
+
+  vocabularyFromList: {
+    id: 'vocabularyFromList',
+    name: 'Cards from a word list',
+    version: 1,
+    system: `You are a Master Memory Coach who connects Pop Culture with Real-World News.
+For the "mnemonic" field of each word:
+1. The Creative Selector (The Hook): Choose ONE category for a vivid image:
+{mnemonicCategories}
+2. Write the mnemonic as a descriptive image generation prompt in English that visualizes this scene.
+
+IMPORTANT: You must return a valid JSON array of objects.
+Each object MUST contain strictly these keys: "word", "phonetic", "definition", "chineseTranslation", "exampleSentence", "mnemonic", "context", "tags".`,
+    prompt: `Create cards for: {words}. Ensure the "exampleSentence" key is present. Mnemonics must be in English.`,
+    variables: {
+      words: 'The pasted or imported words, comma separated',
+      mnemonicCategories: MNEMONIC_VARIABLE
+    },
+    sample: { words: 'leverage, mitigate, stakeholder' }
+  },
+
+  writingAnalysis: {
+    id: 'writingAnalysis',
+    name: 'Writing analysis',
+    version: 1,
+    system: `You are an expert English writing coach and Master Memory Coach.
+Task:
+1. Correct grammar (Return in English).
+2. Suggest a native English speaker version (Return in English).
+3. Provide a detailed explanation of errors and improvements in English.
+4. Suggest 2-3 key vocabulary words with mnemonics.
+
+For the vocabulary mnemonics, use the "Master Memory Coach" strategy:
+- Connect the word to one of these:
+{mnemonicCategories}
+- Write the mnemonic as a vivid visual description in English.
+
+IMPORTANT: Return the response strictly as a valid JSON object.
+JSON Schema Structure:
+{
+  "correction": "The corrected text in English",
+  "improvedVersion": "The native-sounding version in English",
+  "explanation": "Detailed explanation in English",
+  "keyVocabulary": [
+    {
+      "word": "English word",
+      "definition": "English definition",
+      "mnemonic": "Visual scene description in English",
+      "phonetic": "IPA",
+      "chineseTranslation": "Translation/Definition",
+      "exampleSentence": "English example sentence",
+      "tags": ["Tag1", "Tag2"]
+    }
+  ]
+}`,
+    prompt: `Context: {context}. Text to analyze: "{text}".`,
+    variables: {
+      context: 'The writing scenario, e.g. Professional Work Email',
+      text: 'What the learner wrote',
+      mnemonicCategories: MNEMONIC_VARIABLE
+    },
+    sample: { context: 'Professional Work Email', text: 'I am writing for inform you that the meeting is postpone.' }
+  }
+};
+
+export const DEFAULT_MNEMONIC_CATEGORIES: MnemonicCategory[] = [
+  { id: 'anime', label: 'Anime/Movies', description: 'Characters from Ghibli, One Piece, Marvel, etc.', enabled: true },
+  { id: 'stars', label: 'Stars/Icons', description: 'Singers, Historical Figures, or Celebrities.', enabled: true },
+  { id: 'animals', label: 'Anthropomorphic Animals', description: 'Animals acting like humans.', enabled: true },
+  { id: 'surreal', label: 'AI Surrealism', description: 'A strange, dream-like combination of elements.', enabled: true }
+];
+
+export interface MnemonicPreset {
+  id: string;
+  name: string;
+  categories: MnemonicCategory[];
+  note: string;
+}
+
+const withOnly = (enabledIds: string[], extra: MnemonicCategory[] = []): MnemonicCategory[] => [
+  ...DEFAULT_MNEMONIC_CATEGORIES.map(category => ({ ...category, enabled: enabledIds.includes(category.id) })),
+  ...extra
+];
+
+// Starting points for the category list; the user can still edit the result
+export const MNEMONIC_PRESETS: MnemonicPreset[] = [
+  { id: 'pop-culture', name: 'Pop culture (default)', categories: DEFAULT_MNEMONIC_CATEGORIES, note: '' },
+  {
+    id: 'workplace',
+    name: 'Workplace only',
+    categories: withOnly([], [{ id: 'workplace', label: 'Workplace Scenes', description: 'Meetings, emails, deadlines, clients and colleagues in a realistic office.', enabled: true }]),
+    note: 'Keep every scene in a realistic workplace; no fantasy, celebrities or cartoons.'
+  },
+  {
+    id: 'cantonese-puns',
+    name: 'Cantonese puns',
+    categories: withOnly(['stars', 'animals'], [{ id: 'cantonese', label: 'Cantonese Puns', description: 'A pun on how the word sounds in Cantonese; write the Cantonese in Chinese characters with Jyutping.', enabled: true }]),
+    note: 'No anime. Prefer the Cantonese pun whenever the sound allows one.'
+  }
+];
+
+let settings: PromptSettings = {};
+
+// Set from the active profile's settings
+export const configurePrompts = (changes: PromptSettings = {}) => {
+  settings = changes;
+};
+
+export const getPromptSettings = (): PromptSettings => settings;
+
+export const mnemonicCategoriesOf = (promptSettings: PromptSettings): MnemonicCategory[] => {
+  return promptSettings.mnemonicCategories || DEFAULT_MNEMONIC_CATEGORIES;
+};
+
+/**
+ * The {mnemonicCategories} text: one line per enabled category, then the style note.
+ */
+export const describeMnemonicCategories = (categories: MnemonicCategory[], note?: string): string => {
+  const enabled = categories.filter(category => category.enabled && category.label.trim());
+  const lines = enabled.length
+    ? enabled.map(category => `- ${category.label.trim()}${category.description.trim() ? `: ${category.description.trim()}` : ''}`)
+    : ['- Any vivid, memorable scene that fits the word.'];
+  if (note?.trim()) lines.push(`Style rule for every mnemonic: ${note.trim()}`);
+  return lines.join('\n');
+};
+
+/**
+ * The template text in use: the user's edit if there is one, otherwise the built-in text.
+ */
+export const templateText = (id: PromptTemplateId, promptSettings: PromptSettings = settings) => {
+  const builtIn = PROMPT_TEMPLATES[id];
+  const override = promptSettings.overrides?.[id];
+  return {
+    system: override?.system ?? builtIn.system,
+    prompt: override?.prompt ?? builtIn.prompt,
+    isCustom: !!override,
+    // The built-in template changed after the user's copy was made
+    isOutdated: !!override && override.baseVersion < builtIn.version
+  };
+};
+
+/**
+ * Replace {name} placeholders. Unknown names are left as they are, and JSON braces never match.
+ */
+export const fillVariables = (text: string, values: Record<string, string>): string => {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+/**
+ * The final system and user prompt for a template with the given variables.
+ */
+export const renderPrompt = (id: PromptTemplateId, values: Record<string, string>, promptSettings: PromptSettings = settings) => {
+  const { system, prompt } = templateText(id, promptSettings);
+  const all = {
+    ...values,
+    mnemonicCategories: describeMnemonicCategories(mnemonicCategoriesOf(promptSettings), promptSettings.mnemonicNote)
+  };
+  return { system: fillVariables(system, all), prompt: fillVariables(prompt, all) };
+};
@@ -0,0 +1,279 @@
+import { VocabularyItem } from "../types";
+import { normalizeWord, lemmaCandidates } from "./lemmatizer";
+
+// Card fields the index covers, with how much a hit in each counts towards relevance
+export type SearchField = 'word' | 'tags' | 'chineseTranslation' | 'definition' | 'mnemonic' | 'exampleSentence' | 'context';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  word: 10, tags: 6, chineseTranslation: 4, definition: 3, mnemonic: 2, exampleSentence: 2, context: 1
+};
+
+// Prefixes that limit a search term to one field, e.g. `example:deadline`
+const FIELD_ALIASES: Record<string, SearchField> = {
+  word: 'word',
+  def: 'definition', definition: 'definition',
+  zh: 'chineseTranslation', cn: 'chineseTranslation', translation: 'chineseTranslation',
+  example: 'exampleSentence', ex: 'exampleSentence',
+  mnemonic: 'mnemonic', hook: 'mnemonic',
+  context: 'context'
+};
+
+const HAS_FILTERS: Record<string, (item: VocabularyItem) => boolean> = {
+  image: item => !!(item.imageId || item.image),
+  tags: item => (item.tags?.length || 0) > 0,
+  deck: item => (item.deckIds?.length || 0) > 0,
+  review: item => !!item.review?.lastReviewed,
+  mnemonic: item => !!item.mnemonic?.trim(),
+  example: item => !!item.exampleSentence?.trim()
+};
+
+const DURATION_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How well a query term matched an indexed term
+const EXACT = 1;
+const LEMMA = 0.9;
+const PREFIX = 0.7;
+const FUZZY = 0.5;
+
+const HAN = /\p{Script=Han}/u;
+// Runs of Chinese characters, or words in any other script (kept apart when they touch: "app应用")
+const TOKEN = /\p{Script=Han}+|(?:(?!\p{Script=Han})[\p{L}\p{N}])+(?:'\p{L}+)?/gu;
+
+interface SearchTerm {
+  text: string;
+  field?: SearchField;
+}
+
+export interface ParsedQuery {
+  terms: SearchTerm[];
+  filters: ((item: VocabularyItem) => boolean)[];
+}
+
+// Chinese has no spaces, so it is indexed (and searched) by single characters and pairs of characters
+const hanGrams = (run: string, forQuery: boolean): string[] => {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  const bigrams = chars.slice(1).map((char, i) => chars[i] + char);
+  return forQuery ? bigrams : [...chars, ...bigrams];
+};
+
+const tokenize = (text: string, forQuery: boolean): string[] => {
+  const matches = normalizeWord(text || '').match(TOKEN) || [];
+  return matches.flatMap(token => HAN.test(token) ? hanGrams(token, forQuery) : [token]);
+};
+
+const parseAdded = (value: string): ((item: VocabularyItem) => boolean) | null => {
+  const match = value.match(/^([<>])(\d+)([dwmy])$/);
+  if (!match) return null;
+  const cutoff = Date.now() - Number(match[2]) * DURATION_DAYS[match[3]] * DAY_MS;
+  const newer = match[1] === '<';
+  return item => {
+    const added = Date.parse(item.createdAt || '') || 0;
+    return newer ? added >= cutoff : added < cutoff;
+  };
+};
+
+/**
+ * Split a query into free-text terms and filters. Understands `tag:business`, `tag:"small talk"`,
+ * `added:<30d` (or `>2w`, `<6m`, `>1y`), `has:image` (also tags, deck, review, mnemonic, example) and
+ * field prefixes such as `word:`, `def:`, `example:`, `mnemonic:` and `zh:`. Anything else is searched as text.
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const terms: SearchTerm[] = [];
+  const filters: ParsedQuery['filters'] = [];
+  const parts = query.match(/[^\s:"]+:"[^"]*"?|"[^"]*"?|\S+/g) || [];
+
+  for (const part of parts) {
+    const prefixed = part.match(/^([a-z]+):(.*)$/i);
+    const key = prefixed?.[1].toLowerCase();
+    const value = (prefixed?.[2] || '').replace(/"/g, '').trim();
+
+    if (key === 'tag' && value) {
+      const wanted = normalizeWord(value);
+      filters.push(item => (item.tags || []).some(tag => normalizeWord(tag).startsWith(wanted)));
+      continue;
+    }
+    if (key === 'added' && parseAdded(value)) {
+      filters.push(parseAdded(value)!);
+      continue;
+    }
+    if (key === 'has' && HAS_FILTERS[value.toLowerCase()]) {
+      filters.push(HAS_FILTERS[value.toLowerCase()]);
+      continue;
+    }
+    if (key && FIELD_ALIASES[key]) {
+      tokenize(value, true).forEach(text => terms.push({ text, field: FIELD_ALIASES[key] }));
+      continue;
+    }
+    tokenize(part, true).forEach(text => terms.push({ text }));
+  }
+  return { terms, filters };
+};
+
+// Edit distance (with adjacent swaps) between two terms, giving up once it passes `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Typos allowed for a query term of this length: none for short words, where almost everything is one edit away
+const allowedTypos = (term: string) => term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+// Typos an indexed term must be reachable with: enough for every query length `allowedTypos` pairs it with
+const indexedTypos = (term: string) => term.length >= 6 ? 2 : term.length >= 3 ? 1 : 0;
+
+// `term` and every string made from it by deleting up to `depth` characters
+const deletions = (term: string, depth: number): string[] => {
+  const found = new Set([term]);
+  let frontier = [term];
+  for (let d = 0; d < depth; d++) {
+    const next: string[] = [];
+    for (const word of frontier) {
+      for (let i = 0; i < word.length; i++) {
+        const shorter = word.slice(0, i) + word.slice(i + 1);
+        if (!found.has(shorter)) {
+          found.add(shorter);
+          next.push(shorter);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return Array.from(found);
+};
+
+export interface SearchIndex {
+  search(query: string): VocabularyItem[];
+}
+
+/**
+ * Build an in-memory inverted index over `items`. Rebuild it when the items change; searching is then
+ * a lookup per query term instead of a scan of every card.
+ */
+export const buildSearchIndex = (items: VocabularyItem[]): SearchIndex => {
+  // term -> card index -> weight of each field of that card the term appears in
+  const postings = new Map<string, Map<number, Partial<Record<SearchField, number>>>>();
+
+  const add = (term: string, doc: number, field: SearchField) => {
+    let docs = postings.get(term);
+    if (!docs) postings.set(term, docs = new Map());
+    const fields = docs.get(doc) || {};
+    fields[field] = FIELD_WEIGHTS[field];
+    docs.set(doc, fields);
+  };
+
+  items.forEach((item, doc) => {
+    const fields: [SearchField, string][] = [
+      ['word', item.word], ['tags', (item.tags || []).join(' ')], ['chineseTranslation', item.chineseTranslation],
+      ['definition', item.definition], ['mnemonic', item.mnemonic], ['exampleSentence', item.exampleSentence], ['context', item.context]
+    ];
+    for (const [field, text] of fields) {
+      for (const token of tokenize(text, false)) {
+        add(token, doc, field);
+        // Inflected forms are findable by their lemma ("negotiated" by "negotiate")
+        if (!HAN.test(token)) lemmaCandidates(token).forEach(candidate => add(candidate, doc, field));
+      }
+    }
+  });
+  // Sorted, so the terms starting with a prefix are one contiguous run
+  const vocabulary = Array.from(postings.keys()).sort();
+
+  const firstAtOrAfter = (text: string): number => {
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < text) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  // Deletion neighbourhood -> the terms it came from. Two terms within k typos share a neighbour
+  // with at most k characters deleted from each, so typo candidates are lookups, not a scan.
+  // Built on the first search that allows a typo.
+  let neighbours: Map<string, string[]> | null = null;
+  const typoNeighbours = (): Map<string, string[]> => {
+    if (neighbours) return neighbours;
+    neighbours = new Map();
+    for (const term of vocabulary) {
+      if (HAN.test(term)) continue;
+      for (const neighbour of deletions(term, indexedTypos(term))) {
+        const terms = neighbours.get(neighbour);
+        if (terms) terms.push(term);
+        else neighbours.set(neighbour, [term]);
+      }
+    }
+    return neighbours;
+  };
+
+  // Every indexed term a query term can stand for, with how good a match it is
+  const expand = (text: string): Map<string, number> => {
+    const matches = new Map<string, number>();
+    const note = (term: string, quality: number) => {
+      if (postings.has(term) && quality > (matches.get(term) || 0)) matches.set(term, quality);
+    };
+    note(text, EXACT);
+    if (HAN.test(text)) return matches;
+    lemmaCandidates(text).forEach(candidate => note(candidate, LEMMA));
+    if (text.length >= 2) {
+      for (let i = firstAtOrAfter(text); i < vocabulary.length && vocabulary[i].startsWith(text); i++) note(vocabulary[i], PREFIX);
+    }
+    const typos = allowedTypos(text);
+    if (typos === 0) return matches;
+    const checked = new Set<string>();
+    for (const neighbour of deletions(text, typos)) {
+      for (const term of typoNeighbours().get(neighbour) || []) {
+        if (matches.has(term) || checked.has(term)) continue;
+        checked.add(term);
+        if (editDistance(text, term, typos) <= typos) note(term, FUZZY);
+      }
+    }
+    return matches;
+  };
+
+  return {
+    search(query: string): VocabularyItem[] {
+      const { terms, filters } = parseQuery(query);
+      const candidates = items.map((_, doc) => doc).filter(doc => filters.every(filter => filter(items[doc])));
+      if (terms.length === 0) return candidates.map(doc => items[doc]);
+
+      // Every term must match somewhere; a card's score is the sum of each term's best hit
+      const scores = new Map(candidates.map(doc => [doc, 0]));
+      for (const term of terms) {
+        const best = new Map<number, number>();
+        expand(term.text).forEach((quality, indexed) => {
+          postings.get(indexed)!.forEach((fields, doc) => {
+            const weight = term.field ? fields[term.field] : Math.max(...Object.values(fields) as number[]);
+            if (!weight || !scores.has(doc)) return;
+            best.set(doc, Math.max(best.get(doc) || 0, weight * quality));
+          });
+        });
+        for (const doc of Array.from(scores.keys())) {
+          if (best.has(doc)) scores.set(doc, scores.get(doc)! + best.get(doc)!);
+          else scores.delete(doc);
+        }
+      }
+      return Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .map(([doc]) => items[doc]);
+    }
+  };
+};
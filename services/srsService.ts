@@ -0,0 +1,98 @@
+import { VocabularyItem, ReviewGrade, ReviewState } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_MS = 10 * 60 * 1000; // "Again" cards come back in the same session
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+export const createReviewState = (now: Date = new Date()): ReviewState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  due: now.toISOString(),
+  lapses: 0,
+  reps: 0
+});
+
+// Cards saved before the scheduler existed have no review state; treat them as new and due now
+export const getReviewState = (item: VocabularyItem, now: Date = new Date()): ReviewState => {
+  return item.review || createReviewState(now);
+};
+
+export const isDue = (item: VocabularyItem, now: Date = new Date()): boolean => {
+  return new Date(getReviewState(item, now).due).getTime() <= now.getTime();
+};
+
+export const isNew = (item: VocabularyItem): boolean => {
+  return !item.review || (item.review.reps === 0 && item.review.lapses === 0 && !item.review.lastReviewed);
+};
+
+/**
+ * Returns due cards, most overdue first.
+ */
+export const getDueItems = (items: VocabularyItem[], now: Date = new Date()): VocabularyItem[] => {
+  return items
+    .filter(item => isDue(item, now))
+    .sort((a, b) => new Date(getReviewState(a, now).due).getTime() - new Date(getReviewState(b, now).due).getTime());
+};
+
+export const getDueCounts = (items: VocabularyItem[], now: Date = new Date()) => {
+  const due = items.filter(item => isDue(item, now));
+  const fresh = due.filter(isNew).length;
+  return { total: due.length, new: fresh, review: due.length - fresh };
+};
+
+/**
+ * Computes the next state for a card given a recall grade (SM-2 with Anki-style Hard/Easy buttons).
+ */
+export const nextReviewState = (state: ReviewState, grade: ReviewGrade, now: Date = new Date()): ReviewState => {
+  let { ease, interval, lapses, reps } = state;
+  const wasLearning = interval === 0;
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      due: new Date(now.getTime() + RELEARN_MS).toISOString(),
+      lapses: wasLearning ? lapses : lapses + 1,
+      reps: 0,
+      lastReviewed: now.toISOString()
+    };
+  }
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = wasLearning ? 1 : Math.max(interval + 1, Math.round(interval * HARD_FACTOR));
+  } else if (grade === 'good') {
+    interval = wasLearning ? 1 : Math.max(interval + 1, Math.round(interval * ease));
+  } else {
+    ease = ease + 0.15;
+    interval = wasLearning ? 4 : Math.max(interval + 1, Math.round(interval * ease * EASY_BONUS));
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lapses,
+    reps: reps + 1,
+    lastReviewed: now.toISOString()
+  };
+};
+
+export const scheduleReview = (item: VocabularyItem, grade: ReviewGrade, now: Date = new Date()): VocabularyItem => {
+  return { ...item, review: nextReviewState(getReviewState(item, now), grade, now) };
+};
+
+// Human-readable label for the interval a grade button would produce, e.g. "10m", "3d", "2mo"
+export const previewInterval = (item: VocabularyItem, grade: ReviewGrade, now: Date = new Date()): string => {
+  const next = nextReviewState(getReviewState(item, now), grade, now);
+  const ms = new Date(next.due).getTime() - now.getTime();
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -1,32 +1,1116 @@
+import { VocabularyItem, WritingEntry, StoredImage, TrashEntry, LibrarySnapshot, Deck, AiCacheEntry, AiUsageRecord } from '../types';
+import { vaultState, encryptJson, decryptJson, EncryptedPayload } from './cryptoService';
+import { normalizeWord } from './lemmatizer';
 
 const DB_NAME = 'MemoraLinkDB';
-const DB_VERSION = 1;
+const DB_VERSION = 10;
 const STORE_NAME = 'appData';
+const VOCAB_STORE = 'vocabulary';
+const WRITING_STORE = 'writingEntries';
+const IMAGE_STORE = 'images';
+const TRASH_STORE = 'trash';
+const SNAPSHOT_STORE = 'snapshots';
+const TOMBSTONE_STORE = 'tombstones';
+const DECK_STORE = 'decks';
+const AI_CACHE_STORE = 'aiCache';
+const AI_USAGE_STORE = 'aiUsage';
 
-// Open (or create) the database
-const openDB = (): Promise<IDBDatabase> => {
+export const TRASH_RETENTION_DAYS = 30;
+const MAX_SNAPSHOTS = 3;
+
+// localStorage keys that survive "Clear All" (the saved login and the profile list)
+const PRESERVED_LOCAL_KEYS = ['memoralink_saved_password', 'memoralink_profiles'];
+
+// The first profile keeps the original database so existing libraries need no migration
+export const DEFAULT_PROFILE_ID = 'default';
+
+// v1 kept each library as a single array blob under these keys in appData
+const LEGACY_VOCAB_KEY = 'memoralink_library';
+const LEGACY_WRITING_KEY = 'memoralink_writing_library';
+
+export const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Wrap a single IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class StorageQuotaError extends Error {
+  constructor(message: string = "The browser has run out of storage space for MemoraLink, so this change was not saved. Free up space in Library > Storage.") {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// Quota failures surface as a DOMException on the request or as the transaction's abort reason
+const toStorageError = (error: DOMException | null): Error => {
+  if (error?.name === 'QuotaExceededError') return new StorageQuotaError();
+  return error || new Error("Storage transaction failed");
+};
+
+export type StoreCategory = 'vocabulary' | 'writing' | 'decks' | 'images' | 'trash' | 'snapshots' | 'aiCache' | 'other';
+
+const STORE_CATEGORIES: Record<string, StoreCategory> = {
+  [VOCAB_STORE]: 'vocabulary',
+  [WRITING_STORE]: 'writing',
+  [DECK_STORE]: 'decks',
+  [IMAGE_STORE]: 'images',
+  [TRASH_STORE]: 'trash',
+  [SNAPSHOT_STORE]: 'snapshots',
+  [AI_CACHE_STORE]: 'aiCache',
+  [STORE_NAME]: 'other',
+  [TOMBSTONE_STORE]: 'other',
+  [AI_USAGE_STORE]: 'other'
+};
+
+// Every category, e.g. for a profile switch; the Record type makes a newly added category a compile error here
+const CATEGORY_LIST: Record<StoreCategory, true> = { vocabulary: true, writing: true, decks: true, images: true, trash: true, snapshots: true, aiCache: true, other: true };
+const ALL_STORE_CATEGORIES = Object.keys(CATEGORY_LIST) as StoreCategory[];
+
+/**
+ * The ids a write put or deleted, by category. A category that was written without its ids listed
+ * (a clear or a bulk rewrite) may have changed anywhere.
+ */
+export type ChangedIds = Partial<Record<StoreCategory, string[]>>;
+
+type StoreChangeListener = (categories: StoreCategory[], changedIds: ChangedIds) => void;
+
+const changeListeners = new Set<StoreChangeListener>();
+// Other tabs of the same profile hear about every committed write
+const changeChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('memoralink-storage') : null;
+
+const emitChange = (categories: StoreCategory[], changedIds: ChangedIds = {}) => changeListeners.forEach(listener => listener(categories, changedIds));
+
+changeChannel?.addEventListener('message', (event: MessageEvent) => {
+  if (event.data?.profileId === activeProfileId) emitChange(event.data.categories, event.data.changedIds);
+});
+
+// Keys each transaction put or deleted, by store, for the change event
+const writtenKeys = new WeakMap<IDBTransaction, Map<string, Set<string>>>();
+
+const noteWrite = (tx: IDBTransaction, storeName: string, key: IDBValidKey) => {
+  const byStore = writtenKeys.get(tx) || new Map<string, Set<string>>();
+  writtenKeys.set(tx, byStore);
+  const keys = byStore.get(storeName) || new Set<string>();
+  byStore.set(storeName, keys);
+  keys.add(String(key));
+};
+
+const putNoted = (tx: IDBTransaction, storeName: string, record: unknown) => {
+  const request = tx.objectStore(storeName).put(record);
+  request.onsuccess = () => noteWrite(tx, storeName, request.result);
+};
+
+const deleteNoted = (tx: IDBTransaction, storeName: string, key: string) => {
+  tx.objectStore(storeName).delete(key);
+  noteWrite(tx, storeName, key);
+};
+
+// Ids per category, for the categories whose every store in `tx` noted what it wrote
+const changedIdsOf = (tx: IDBTransaction, categories: StoreCategory[]): ChangedIds => {
+  const byStore = writtenKeys.get(tx);
+  const changedIds: ChangedIds = {};
+  if (!byStore) return changedIds;
+  const storeNames = Array.from(tx.objectStoreNames);
+  for (const category of categories) {
+    const stores = storeNames.filter(name => STORE_CATEGORIES[name] === category);
+    if (stores.every(name => byStore.has(name))) changedIds[category] = stores.flatMap(name => Array.from(byStore.get(name)!));
+  }
+  return changedIds;
+};
+
+/**
+ * Listen for committed writes in this tab or another tab on the same profile. Returns an unsubscribe function.
+ */
+export const onStoreChange = (listener: StoreChangeListener): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+// Resolve once a multi-store transaction commits; writes are announced to listeners here
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => {
+    if (tx.mode === 'readwrite') {
+      const categories = Array.from(new Set(Array.from(tx.objectStoreNames).map(name => STORE_CATEGORIES[name])));
+      const changedIds = changedIdsOf(tx, categories);
+      emitChange(categories, changedIds);
+      changeChannel?.postMessage({ profileId: activeProfileId, categories, changedIds });
+    }
+    resolve();
+  };
+  tx.onerror = () => reject(toStorageError(tx.error));
+  tx.onabort = () => reject(toStorageError(tx.error));
+});
+
+// Read a legacy blob either from the v1 appData store or from the pre-IDB localStorage copy
+const readLegacyBlob = async <T>(appData: IDBObjectStore, key: string): Promise<T[]> => {
+  const fromIdb = await promisify<T[] | undefined>(appData.get(key));
+  if (Array.isArray(fromIdb)) return fromIdb;
+
+  const localData = localStorage.getItem(key);
+  if (localData) {
+    try {
+      const parsed = JSON.parse(localData);
+      if (Array.isArray(parsed)) return parsed;
+    } catch (e) {
+      console.error(`Failed to parse legacy ${key} from localStorage`, e);
+    }
+  }
+  return [];
+};
+
+// A card as stored: with its normalised word, so findDuplicate can use the wordKey index
+type StoredCard = VocabularyItem & { wordKey?: string };
+
+const withWordKey = (item: VocabularyItem): StoredCard => ({ ...item, wordKey: normalizeWord(item.word) });
+
+// The key is storage's own: cards handed out (and so backups, sync and snapshots) never carry it
+const withoutWordKey = ({ wordKey, ...card }: StoredCard): VocabularyItem => card;
+
+// v9 -> v10: key the cards already stored, dropping v9's lemma keys. Sealed cards are skipped: their words must stay unreadable.
+const backfillWordKeys = (vocabStore: IDBObjectStore) => {
+  const request = vocabStore.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!isSealed(cursor.value)) {
+      const { lemmaKeys, ...card } = cursor.value;
+      cursor.update(withWordKey(card));
+    }
+    cursor.continue();
+  };
+};
+
+/**
+ * v1 -> v2: split the array blobs into keyed records.
+ * The old arrays were newest-first, so createdAt is back-filled in descending order to keep that order.
+ */
+const migrateV1Blobs = async (tx: IDBTransaction) => {
+  const appData = tx.objectStore(STORE_NAME);
+  const vocabStore = tx.objectStore(VOCAB_STORE);
+  const writingStore = tx.objectStore(WRITING_STORE);
+  const now = Date.now();
+
+  const vocab = await readLegacyBlob<VocabularyItem>(appData, LEGACY_VOCAB_KEY);
+  vocab.forEach((item, index) => {
+    vocabStore.put({
+      ...withWordKey(item),
+      id: item.id || generateId(),
+      createdAt: item.createdAt || new Date(now - index).toISOString()
+    });
+  });
+
+  const writing = await readLegacyBlob<WritingEntry>(appData, LEGACY_WRITING_KEY);
+  writing.forEach((entry, index) => {
+    // Writing ids were Date.now() strings, which doubles as a creation time
+    const idTime = Number(entry.id);
+    writingStore.put({
+      ...entry,
+      id: entry.id || generateId(),
+      createdAt: entry.createdAt || new Date(Number.isFinite(idTime) && idTime > 0 ? idTime : now - index).toISOString()
+    });
+  });
+
+  if (vocab.length || writing.length) {
+    console.log(`Migrated ${vocab.length} words and ${writing.length} writing logs to DB v2`);
+  }
+  appData.delete(LEGACY_VOCAB_KEY);
+  appData.delete(LEGACY_WRITING_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+// Each learner profile has its own database, so every store (cards, logs, images, trash, settings) is isolated
+const dbNameFor = (profileId: string) => profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}-${profileId}`;
+
+// Close the shared connection; the next call to openDB opens the active profile's database
+const closeDB = async () => {
+  const pending = dbPromise;
+  dbPromise = null;
+  if (pending) {
+    try {
+      (await pending).close();
+    } catch {
+      // The open had failed; nothing to close
+    }
+  }
+};
+
+/**
+ * Point every store at another profile's database.
+ */
+export const switchProfileDatabase = async (profileId: string): Promise<void> => {
+  if (profileId === activeProfileId && dbPromise) return;
+  await closeDB();
+  activeProfileId = profileId;
+  // Vault keys belong to a single profile
+  vaultState.reset();
+  emitChange(ALL_STORE_CATEGORIES);
+};
+
+export const deleteProfileDatabase = async (profileId: string): Promise<void> => {
+  if (profileId === activeProfileId) await closeDB();
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbNameFor(profileId));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn(`Deleting profile ${profileId} is waiting for other tabs to close it`);
+  });
+};
+
+// Open (or create) the active profile's database; the connection is shared across calls
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  const profileId = activeProfileId;
+  const opening: Promise<IDBDatabase> = new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbNameFor(profileId), DB_VERSION);
+
     request.onerror = () => {
       console.error("IndexedDB error:", request.error);
+      if (dbPromise === opening) dbPromise = null;
       reject(request.error);
     };
-    
-    request.onsuccess = () => resolve(request.result);
-    
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading or deleting the database: let it proceed and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        if (dbPromise === opening) dbPromise = null;
+      };
+      resolve(db);
+    };
+
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const tx = (event.target as IDBOpenDBRequest).transaction!;
+
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(VOCAB_STORE)) {
+        const vocab = db.createObjectStore(VOCAB_STORE, { keyPath: 'id' });
+        vocab.createIndex('word', 'word', { unique: false });
+        vocab.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+        vocab.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(WRITING_STORE)) {
+        const writing = db.createObjectStore(WRITING_STORE, { keyPath: 'id' });
+        writing.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      // v3: image blobs live in their own store. Inline data URLs are converted after open
+      // by migrateInlineImages, since resizing needs a canvas and can't run inside the upgrade.
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(TRASH_STORE)) {
+        const trash = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+        snapshots.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      // v5: deletions waiting to be pushed to the sync server
+      if (!db.objectStoreNames.contains(TOMBSTONE_STORE)) {
+        db.createObjectStore(TOMBSTONE_STORE, { keyPath: 'key' });
+      }
+      // v6: decks, which cards point at through deckIds
+      if (!db.objectStoreNames.contains(DECK_STORE)) {
+        const decks = db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+        decks.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      // v7: earlier AI answers, evicted least recently used first
+      if (!db.objectStoreNames.contains(AI_CACHE_STORE)) {
+        const cache = db.createObjectStore(AI_CACHE_STORE, { keyPath: 'key' });
+        cache.createIndex('lastUsedAt', 'lastUsedAt', { unique: false });
+      }
+      // v8: tokens used per AI call, for the usage page
+      if (!db.objectStoreNames.contains(AI_USAGE_STORE)) {
+        const usage = db.createObjectStore(AI_USAGE_STORE, { keyPath: 'id' });
+        usage.createIndex('at', 'at', { unique: false });
+      }
+      // v10: the normalised word, so a card for the same word is found without a scan. It replaces v9's
+      // index of lemma candidates, which also joined different words ("evening" and "even").
+      const vocab = tx.objectStore(VOCAB_STORE);
+      if (vocab.indexNames.contains('lemmaKeys')) vocab.deleteIndex('lemmaKeys');
+      if (!vocab.indexNames.contains('wordKey')) {
+        vocab.createIndex('wordKey', 'wordKey', { unique: false });
+        backfillWordKeys(vocab);
+      }
+
+      // Legacy blobs belong to whoever used the app before profiles existed
+      if (event.oldVersion < 2 && profileId === DEFAULT_PROFILE_ID) {
+        migrateV1Blobs(tx).catch(e => console.error("DB v2 migration failed", e));
+      }
+    };
+  });
+
+  dbPromise = opening;
+  return opening;
+};
+
+// Collect every record of a store, newest first
+const getAllNewestFirst = async <T>(storeName: string, indexName: string = 'createdAt'): Promise<T[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const results: T[] = [];
+    const request = tx.objectStore(storeName).index(indexName).openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        results.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(results);
+      }
     };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readonly');
+  return promisify<T[]>(tx.objectStore(storeName).getAll());
+};
+
+// Put several records in one transaction, resolving once it commits
+const putRecords = async <T>(storeName: string, records: T[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  records.forEach(record => putNoted(tx, storeName, record));
+  return completion(tx);
+};
+
+const deleteRecord = async (storeName: string, id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  deleteNoted(tx, storeName, id);
+  return completion(tx);
+};
+
+// The records with these ids, read in one transaction; undefined for ids that are not stored
+const getRecords = async <T>(storeName: string, ids: string[]): Promise<(T | undefined)[]> => {
+  const db = await openDB();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return Promise.all(ids.map(id => promisify<T | undefined>(store.get(id))));
+};
+
+const clearStore = async (storeName: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).clear();
+  return completion(tx);
+};
+
+/**
+ * While the vault is on, records are stored as an encrypted envelope. Only what the stores need for
+ * ordering and image cleanup (id, timestamps, image id) stays readable; the word, tag and word-key indexes go unused.
+ */
+interface SealedRecord {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  imageId?: string;
+  altImageIds?: string[];
+  sealed: EncryptedPayload;
+}
+
+const isSealed = (record: unknown): record is SealedRecord => !!record && typeof record === 'object' && 'sealed' in record;
+
+// The fields of a record that `seal` leaves readable, when the record has them
+type SealableRecord = Keyed & Pick<VocabularyItem, 'imageId' | 'altImageIds'>;
+
+const seal = async <T extends SealableRecord>(record: T): Promise<T | SealedRecord> => {
+  if (!vaultState.isEnabled()) return record;
+  const { id, createdAt, updatedAt, imageId, altImageIds }: SealableRecord = record;
+  return {
+    id: id!, // Every stored record has one: the stores are keyed on it
+    createdAt, updatedAt,
+    ...(imageId ? { imageId } : {}),
+    ...(altImageIds?.length ? { altImageIds } : {}),
+    sealed: await encryptJson(record, vaultState.requireKey())
+  };
+};
+
+// Plaintext records (written before the vault was enabled) pass through unchanged
+const unseal = async <T>(record: T | SealedRecord): Promise<T> => {
+  return isSealed(record) ? decryptJson<T>(record.sealed, vaultState.requireKey()) : record;
+};
+
+const unsealAll = <T>(records: (T | SealedRecord)[]): Promise<T[]> => Promise.all(records.map(r => unseal<T>(r)));
+
+const unsealFound = <T>(records: (T | SealedRecord | undefined)[]): Promise<(T | undefined)[]> => Promise.all(records.map(r => r && unseal<T>(r)));
+
+// Trashed cards are moved as stored, word key included
+const unsealEntry = async (entry: TrashEntry): Promise<TrashEntry> => {
+  const record = await unseal(entry.record);
+  return { ...entry, record: entry.kind === 'vocabulary' ? withoutWordKey(record as StoredCard) : record };
+};
+
+// Record kinds that are synced between devices. Cards and writing logs can also be trashed.
+export type SyncKind = TrashEntry['kind'] | 'deck';
+
+// A local deletion not yet pushed to the sync server
+export interface Tombstone {
+  key: string; // `${kind}:${id}`
+  kind: SyncKind;
+  id: string;
+  deletedAt: string;
+}
+
+const SOURCE_STORES: Record<SyncKind, string> = { vocabulary: VOCAB_STORE, writing: WRITING_STORE, deck: DECK_STORE };
+
+const sourceStoreFor = (kind: SyncKind) => SOURCE_STORES[kind];
+
+const addTombstones = (tx: IDBTransaction, kind: SyncKind, ids: IDBValidKey[]) => {
+  const deletedAt = new Date().toISOString();
+  ids.forEach(id => {
+    const tombstone: Tombstone = { key: `${kind}:${String(id)}`, kind, id: String(id), deletedAt };
+    tx.objectStore(TOMBSTONE_STORE).put(tombstone);
   });
 };
 
+const deleteSyncedRecord = async (kind: SyncKind, id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([sourceStoreFor(kind), TOMBSTONE_STORE], 'readwrite');
+  deleteNoted(tx, sourceStoreFor(kind), id);
+  addTombstones(tx, kind, [id]);
+  return completion(tx);
+};
+
+const clearSyncedStore = async (kind: SyncKind): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([sourceStoreFor(kind), TOMBSTONE_STORE], 'readwrite');
+  const ids = await promisify(tx.objectStore(sourceStoreFor(kind)).getAllKeys());
+  tx.objectStore(sourceStoreFor(kind)).clear();
+  addTombstones(tx, kind, ids);
+  return completion(tx);
+};
+
+export interface PutOptions {
+  // Keep an existing updatedAt instead of stamping the current time (used when restoring backups)
+  preserveTimestamps?: boolean;
+}
+
+type Keyed = { id?: string, createdAt?: string, updatedAt?: string };
+
+// Fill in the storage-owned fields on a record about to be written
+const withKeys = <T extends Keyed>(record: T, options: PutOptions = {}): T & Required<Keyed> => {
+  const now = new Date().toISOString();
+  return {
+    ...record,
+    id: record.id || generateId(),
+    createdAt: record.createdAt || now,
+    updatedAt: options.preserveTimestamps && record.updatedAt ? record.updatedAt : now
+  };
+};
+
+let lockQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write under the profile's library lock, shared by every open tab.
+ * Sealing is async, so the read and the write can't share one IndexedDB transaction.
+ * Don't nest calls: the lock isn't re-entrant.
+ */
+const withLibraryLock = <T>(task: () => Promise<T>): Promise<T> => {
+  if (navigator.locks) return navigator.locks.request(`memoralink-library-${activeProfileId}`, task) as Promise<T>;
+  // Without the Web Locks API, at least writes in this tab are serialized
+  const next = lockQueue.then(task, task);
+  lockQueue = next.catch(() => {});
+  return next;
+};
+
+export const vocabularyStore = {
+  async getAll(): Promise<VocabularyItem[]> {
+    return (await unsealAll(await getAllNewestFirst<StoredCard>(VOCAB_STORE))).map(withoutWordKey);
+  },
+
+  /**
+   * The card for `word` in any case or spacing ("Follow up" finds "follow  up"). Other forms of the word
+   * are not matched, since the lemmatiser also joins different words; the duplicate finder offers those.
+   * Sealed cards carry no word key, so with the vault on the library is scanned instead.
+   */
+  async findDuplicate(word: string): Promise<VocabularyItem | undefined> {
+    const key = normalizeWord(word);
+    if (vaultState.isEnabled()) return (await this.getAll()).find(item => normalizeWord(item.word) === key);
+    const db = await openDB();
+    const tx = db.transaction(VOCAB_STORE, 'readonly');
+    const match = await promisify<StoredCard | undefined>(tx.objectStore(VOCAB_STORE).index('wordKey').get(key));
+    return match && withoutWordKey(match);
+  },
+
+  /**
+   * The cards with these ids, undefined for any that are not stored (any more).
+   */
+  async getMany(ids: string[]): Promise<(VocabularyItem | undefined)[]> {
+    return (await unsealFound(await getRecords<StoredCard | SealedRecord>(VOCAB_STORE, ids))).map(card => card && withoutWordKey(card));
+  },
+
+  async findByWord(word: string): Promise<VocabularyItem | undefined> {
+    if (vaultState.isEnabled()) return (await this.getAll()).find(item => item.word === word);
+    const db = await openDB();
+    const tx = db.transaction(VOCAB_STORE, 'readonly');
+    const record = await promisify<StoredCard | undefined>(tx.objectStore(VOCAB_STORE).index('word').get(word));
+    return record && withoutWordKey(record);
+  },
+
+  async get(id: string): Promise<VocabularyItem | undefined> {
+    const db = await openDB();
+    const tx = db.transaction(VOCAB_STORE, 'readonly');
+    const record = await promisify<StoredCard | SealedRecord | undefined>(tx.objectStore(VOCAB_STORE).get(id));
+    return record && withoutWordKey(await unseal<StoredCard>(record));
+  },
+
+  async getByTag(tag: string): Promise<VocabularyItem[]> {
+    if (vaultState.isEnabled()) return (await this.getAll()).filter(item => item.tags?.includes(tag));
+    const db = await openDB();
+    const tx = db.transaction(VOCAB_STORE, 'readonly');
+    return (await promisify<StoredCard[]>(tx.objectStore(VOCAB_STORE).index('tags').getAll(tag))).map(withoutWordKey);
+  },
+
+  async count(): Promise<number> {
+    const db = await openDB();
+    const tx = db.transaction(VOCAB_STORE, 'readonly');
+    return promisify(tx.objectStore(VOCAB_STORE).count());
+  },
+
+  /**
+   * Insert or update one card. Returns the stored record including its id.
+   */
+  async put(item: VocabularyItem): Promise<VocabularyItem> {
+    const record = withKeys(withWordKey(item));
+    await putRecords(VOCAB_STORE, [await seal(record)]);
+    return record;
+  },
+
+  async putMany(items: VocabularyItem[], options?: PutOptions): Promise<VocabularyItem[]> {
+    const records = items.map(item => withKeys(withWordKey(item), options));
+    await putRecords(VOCAB_STORE, await Promise.all(records.map(seal)));
+    return records;
+  },
+
+  /**
+   * Apply `updater` to the latest stored version of a card, so edits from other tabs aren't overwritten.
+   * Returns the saved card, or undefined if the card no longer exists.
+   */
+  async update(id: string, updater: (item: VocabularyItem) => VocabularyItem): Promise<VocabularyItem | undefined> {
+    return withLibraryLock(async () => {
+      const current = await this.get(id);
+      return current && this.put(updater(current));
+    });
+  },
+
+  /**
+   * Save a new card unless the library has the same word, in any case or spacing.
+   * Returns the saved card, or null if it was a duplicate.
+   */
+  async addIfMissing(item: VocabularyItem): Promise<VocabularyItem | null> {
+    return withLibraryLock(async () => {
+      if (await this.findDuplicate(item.word)) return null;
+      return this.put(item);
+    });
+  },
+
+  /**
+   * Put a word into a deck, saving it first if the library doesn't have it yet.
+   */
+  async addToDeck(item: VocabularyItem, deckId: string): Promise<VocabularyItem> {
+    return withLibraryLock(async () => {
+      const card = (await this.findDuplicate(item.word)) || item;
+      if (card.deckIds?.includes(deckId)) return card;
+      return this.put({ ...card, deckIds: [...(card.deckIds || []), deckId] });
+    });
+  },
+
+  /**
+   * Save `merged` and move the duplicates it replaces to the trash. Their images now belong to the
+   * merged card, so the trashed copies are stripped of them first (purging the trash must not delete them).
+   */
+  async merge(merged: VocabularyItem, duplicateIds: string[]): Promise<VocabularyItem> {
+    return withLibraryLock(async () => {
+      const saved = await this.put(merged);
+      for (const id of duplicateIds.filter(id => id !== saved.id)) {
+        const duplicate = await this.get(id);
+        if (!duplicate) continue;
+        const { image, imageId, altImageIds, ...rest } = duplicate;
+        await this.put(rest);
+        await trashStore.moveToTrash('vocabulary', id);
+      }
+      return saved;
+    });
+  },
+
+  async delete(id: string): Promise<void> {
+    return deleteSyncedRecord('vocabulary', id);
+  },
+
+  async clear(): Promise<void> {
+    return clearSyncedStore('vocabulary');
+  }
+};
+
+export const writingStore = {
+  async getAll(): Promise<WritingEntry[]> {
+    return unsealAll(await getAllNewestFirst<WritingEntry>(WRITING_STORE));
+  },
+
+  async getMany(ids: string[]): Promise<(WritingEntry | undefined)[]> {
+    return unsealFound(await getRecords<WritingEntry | SealedRecord>(WRITING_STORE, ids));
+  },
+
+  async put(entry: WritingEntry): Promise<WritingEntry> {
+    const record = withKeys(entry);
+    await putRecords(WRITING_STORE, [await seal(record)]);
+    return record;
+  },
+
+  async putMany(entries: WritingEntry[], options?: PutOptions): Promise<WritingEntry[]> {
+    const records = entries.map(entry => withKeys(entry, options));
+    await putRecords(WRITING_STORE, await Promise.all(records.map(seal)));
+    return records;
+  },
+
+  async delete(id: string): Promise<void> {
+    return deleteSyncedRecord('writing', id);
+  },
+
+  async clear(): Promise<void> {
+    return clearSyncedStore('writing');
+  }
+};
+
+export const deckStore = {
+  async getAll(): Promise<Deck[]> {
+    return unsealAll(await getAllNewestFirst<Deck>(DECK_STORE));
+  },
+
+  async getMany(ids: string[]): Promise<(Deck | undefined)[]> {
+    return unsealFound(await getRecords<Deck | SealedRecord>(DECK_STORE, ids));
+  },
+
+  async put(deck: Deck): Promise<Deck> {
+    const record = withKeys(deck);
+    await putRecords(DECK_STORE, [await seal(record)]);
+    return record;
+  },
+
+  async putMany(decks: Deck[], options?: PutOptions): Promise<Deck[]> {
+    const records = decks.map(deck => withKeys(deck, options));
+    await putRecords(DECK_STORE, await Promise.all(records.map(seal)));
+    return records;
+  },
+
+  /**
+   * Delete a deck and its cover. Its cards stay in the library; they just leave the deck.
+   */
+  async delete(id: string): Promise<void> {
+    const deck = (await this.getAll()).find(d => d.id === id);
+    await withLibraryLock(async () => {
+      const members = (await vocabularyStore.getAll()).filter(item => item.deckIds?.includes(id));
+      await vocabularyStore.putMany(members.map(item => ({ ...item, deckIds: item.deckIds!.filter(deckId => deckId !== id) })));
+    });
+    await deleteSyncedRecord('deck', id);
+    if (deck?.coverImageId) await imageStore.delete(deck.coverImageId);
+  }
+};
+
+export const imageStore = {
+  async get(id: string): Promise<StoredImage | undefined> {
+    const db = await openDB();
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    return promisify<StoredImage | undefined>(tx.objectStore(IMAGE_STORE).get(id));
+  },
+
+  async put(image: StoredImage): Promise<void> {
+    return putRecords(IMAGE_STORE, [image]);
+  },
+
+  async listIds(): Promise<string[]> {
+    const db = await openDB();
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    return (await promisify(tx.objectStore(IMAGE_STORE).getAllKeys())) as string[];
+  },
+
+  async delete(id: string): Promise<void> {
+    return deleteRecord(IMAGE_STORE, id);
+  },
+
+  async clear(): Promise<void> {
+    return clearStore(IMAGE_STORE);
+  }
+};
+
+/**
+ * Every stored image a card points at: its main image plus any kept from merged duplicates.
+ * Works on sealed records too, since image keys are left readable.
+ */
+export const cardImageIds = (item: Pick<VocabularyItem, 'imageId' | 'altImageIds'>): string[] => {
+  return [item.imageId, ...(item.altImageIds || [])].filter((id): id is string => !!id);
+};
+
+// Permanently remove trash entries together with the images they still reference
+const purgeEntries = async (entries: TrashEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction([TRASH_STORE, IMAGE_STORE], 'readwrite');
+  entries.forEach(entry => {
+    tx.objectStore(TRASH_STORE).delete(entry.id);
+    if (entry.kind === 'vocabulary') cardImageIds(entry.record as VocabularyItem).forEach(id => tx.objectStore(IMAGE_STORE).delete(id));
+  });
+  return completion(tx);
+};
+
+export const trashStore = {
+  async getAll(): Promise<TrashEntry[]> {
+    return Promise.all((await getAllNewestFirst<TrashEntry>(TRASH_STORE, 'deletedAt')).map(unsealEntry));
+  },
+
+  /**
+   * Soft-delete a record: move it from its store into the trash in one transaction.
+   * The record is moved as stored (still sealed if the vault is on).
+   * Its image (if any) stays in the images store until the entry is purged.
+   * `tombstone` is false when the deletion came from the sync server and must not be pushed back.
+   */
+  async moveToTrash(kind: TrashEntry['kind'], id: string, tombstone: boolean = true): Promise<TrashEntry | undefined> {
+    const db = await openDB();
+    const source = sourceStoreFor(kind);
+    const tx = db.transaction([source, TRASH_STORE, TOMBSTONE_STORE], 'readwrite');
+    const record = await promisify<VocabularyItem | WritingEntry | undefined>(tx.objectStore(source).get(id));
+    if (!record) return undefined;
+
+    const entry: TrashEntry = { id, kind, record, deletedAt: new Date().toISOString() };
+    tx.objectStore(TRASH_STORE).put(entry);
+    deleteNoted(tx, source, id);
+    if (tombstone) addTombstones(tx, kind, [id]);
+    await completion(tx);
+    return unsealEntry(entry);
+  },
+
+  async restore(id: string): Promise<TrashEntry | undefined> {
+    const db = await openDB();
+    const tx = db.transaction([VOCAB_STORE, WRITING_STORE, TRASH_STORE], 'readwrite');
+    const entry = await promisify<TrashEntry | undefined>(tx.objectStore(TRASH_STORE).get(id));
+    if (!entry) return undefined;
+
+    putNoted(tx, sourceStoreFor(entry.kind), entry.record);
+    tx.objectStore(TRASH_STORE).delete(id);
+    await completion(tx);
+
+    // Save again so the restored record is newer than its tombstone and syncs back to other devices
+    const restored = await unsealEntry(entry);
+    const record = restored.kind === 'vocabulary'
+      ? await vocabularyStore.put(restored.record as VocabularyItem)
+      : await writingStore.put(restored.record as WritingEntry);
+    return { ...restored, record };
+  },
+
+  async purge(id: string): Promise<void> {
+    const db = await openDB();
+    const tx = db.transaction(TRASH_STORE, 'readonly');
+    const entry = await promisify<TrashEntry | undefined>(tx.objectStore(TRASH_STORE).get(id));
+    if (entry) await purgeEntries([entry]);
+  },
+
+  /**
+   * Drop entries older than the retention window. Returns how many were purged.
+   */
+  async purgeExpired(days: number = TRASH_RETENTION_DAYS): Promise<number> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const expired = (await this.getAll()).filter(entry => entry.deletedAt < cutoff);
+    await purgeEntries(expired);
+    return expired.length;
+  },
+
+  async clear(): Promise<void> {
+    return purgeEntries(await this.getAll());
+  }
+};
+
+export const snapshotStore = {
+  async getAll(): Promise<LibrarySnapshot[]> {
+    return unsealAll(await getAllNewestFirst<LibrarySnapshot>(SNAPSHOT_STORE));
+  },
+
+  /**
+   * Save a snapshot, keeping only the most recent few.
+   */
+  async add(snapshot: LibrarySnapshot): Promise<void> {
+    await putRecords(SNAPSHOT_STORE, [await seal(snapshot)]);
+    const stale = (await getAllNewestFirst<SealedRecord>(SNAPSHOT_STORE)).slice(MAX_SNAPSHOTS);
+    for (const old of stale) {
+      await deleteRecord(SNAPSHOT_STORE, old.id);
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    return deleteRecord(SNAPSHOT_STORE, id);
+  }
+};
+
+// With the vault on, the answer is encrypted (prompts can quote the user's writing); the key is a hash anyway
+type StoredCacheEntry = Omit<AiCacheEntry, 'response'> & { response?: string, sealed?: EncryptedPayload };
+
+export type AiCacheEntryInfo = Omit<AiCacheEntry, 'response'>;
+
+const cacheEntryInfo = ({ response, sealed, ...info }: StoredCacheEntry): AiCacheEntryInfo => info;
+
+export const aiCacheStore = {
+  async get(key: string): Promise<AiCacheEntry | undefined> {
+    const db = await openDB();
+    const tx = db.transaction(AI_CACHE_STORE, 'readonly');
+    const stored = await promisify<StoredCacheEntry | undefined>(tx.objectStore(AI_CACHE_STORE).get(key));
+    if (!stored) return undefined;
+    if (stored.response !== undefined) return stored as AiCacheEntry;
+    if (!stored.sealed || !vaultState.isEnabled()) return undefined;
+    return { ...cacheEntryInfo(stored), response: await decryptJson<string>(stored.sealed, vaultState.requireKey()) };
+  },
+
+  async put(entry: AiCacheEntry): Promise<void> {
+    if (!vaultState.isEnabled()) return putRecords(AI_CACHE_STORE, [entry]);
+    const { response, ...info } = entry;
+    return putRecords<StoredCacheEntry>(AI_CACHE_STORE, [{ ...info, sealed: await encryptJson(response, vaultState.requireKey()) }]);
+  },
+
+  /**
+   * Count a hit, without decrypting and re-sealing the answer.
+   */
+  async markUsed(key: string, usedAt: string): Promise<void> {
+    const db = await openDB();
+    const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(AI_CACHE_STORE);
+    const stored = await promisify<StoredCacheEntry | undefined>(store.get(key));
+    if (stored) store.put({ ...stored, hits: stored.hits + 1, lastUsedAt: usedAt });
+    return completion(tx);
+  },
+
+  /**
+   * Every entry without its answer, least recently used first.
+   */
+  async list(): Promise<AiCacheEntryInfo[]> {
+    return (await getAllNewestFirst<StoredCacheEntry>(AI_CACHE_STORE, 'lastUsedAt')).reverse().map(cacheEntryInfo);
+  },
+
+  async deleteMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await openDB();
+    const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+    keys.forEach(key => tx.objectStore(AI_CACHE_STORE).delete(key));
+    return completion(tx);
+  },
+
+  async clear(): Promise<void> {
+    return clearStore(AI_CACHE_STORE);
+  }
+};
+
+export const aiUsageStore = {
+  async add(record: AiUsageRecord): Promise<void> {
+    return putRecords(AI_USAGE_STORE, [record]);
+  },
+
+  /**
+   * Calls made at or after `since` (an ISO timestamp), oldest first.
+   */
+  async getSince(since: string): Promise<AiUsageRecord[]> {
+    const db = await openDB();
+    const tx = db.transaction(AI_USAGE_STORE, 'readonly');
+    return promisify<AiUsageRecord[]>(tx.objectStore(AI_USAGE_STORE).index('at').getAll(IDBKeyRange.lowerBound(since)));
+  },
+
+  async deleteBefore(before: string): Promise<void> {
+    const db = await openDB();
+    const tx = db.transaction(AI_USAGE_STORE, 'readwrite');
+    const request = tx.objectStore(AI_USAGE_STORE).index('at').openKeyCursor(IDBKeyRange.upperBound(before, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(AI_USAGE_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    return completion(tx);
+  },
+
+  async clear(): Promise<void> {
+    return clearStore(AI_USAGE_STORE);
+  }
+};
+
+/**
+ * Rewrite every record under a new vault state (enable, disable or passphrase change).
+ * Everything is decrypted with the current key, `switchKeys` installs the new state, and the re-sealed
+ * records are written in one transaction together with `appDataChanges` (undefined values are deleted),
+ * so the stored vault settings never disagree with the data.
+ */
+export const reencryptLibrary = async (switchKeys: () => void, appDataChanges: Record<string, unknown> = {}): Promise<void> => {
+  const vocabulary = await vocabularyStore.getAll();
+  const writing = await writingStore.getAll();
+  const trash = await trashStore.getAll();
+  const snapshots = await snapshotStore.getAll();
+  const decks = await deckStore.getAll();
+
+  switchKeys();
+  const sealedVocabulary = await Promise.all(vocabulary.map(card => seal(withWordKey(card))));
+  const sealedWriting = await Promise.all(writing.map(seal));
+  const sealedTrash = await Promise.all(trash.map(async entry => ({ ...entry, record: await seal(entry.record) })));
+  const sealedSnapshots = await Promise.all(snapshots.map(seal));
+  const sealedDecks = await Promise.all(decks.map(seal));
+
+  const db = await openDB();
+  const tx = db.transaction([STORE_NAME, VOCAB_STORE, WRITING_STORE, TRASH_STORE, SNAPSHOT_STORE, DECK_STORE, AI_CACHE_STORE], 'readwrite');
+  // Cached AI answers are cheaper to fetch again than to re-encrypt
+  tx.objectStore(AI_CACHE_STORE).clear();
+  sealedVocabulary.forEach(record => tx.objectStore(VOCAB_STORE).put(record));
+  sealedWriting.forEach(record => tx.objectStore(WRITING_STORE).put(record));
+  sealedTrash.forEach(entry => tx.objectStore(TRASH_STORE).put(entry));
+  sealedSnapshots.forEach(record => tx.objectStore(SNAPSHOT_STORE).put(record));
+  sealedDecks.forEach(record => tx.objectStore(DECK_STORE).put(record));
+  Object.entries(appDataChanges).forEach(([key, value]) => {
+    if (value === undefined) tx.objectStore(STORE_NAME).delete(key);
+    else tx.objectStore(STORE_NAME).put(value, key);
+  });
+  return completion(tx);
+};
+
+export interface SyncChange {
+  kind: SyncKind;
+  id: string;
+  updatedAt: string;
+  deleted?: boolean;
+  data?: VocabularyItem | WritingEntry | Deck;
+}
+
+/**
+ * Low-level access for the sync client: local changes to push and a way to write pulled changes
+ * without them being queued for pushing again.
+ */
+export const syncStore = {
+  /**
+   * Records saved after `since` (every record when undefined) plus all pending deletions.
+   * A record that was deleted and then put back with an old timestamp (e.g. a backup restore)
+   * is pushed as of its deletion time, so it beats its own tombstone on the server.
+   */
+  async collectChanges(since?: string): Promise<{ changes: SyncChange[], tombstones: Tombstone[] }> {
+    const tombstones = await getAllRecords<Tombstone>(TOMBSTONE_STORE);
+    const deletedAt = new Map(tombstones.map(t => [t.key, t.deletedAt]));
+    const present = new Set<string>();
+
+    const changed = <T extends VocabularyItem | WritingEntry | Deck>(kind: SyncKind, records: T[]): SyncChange[] => records.flatMap(record => {
+      const key = `${kind}:${record.id}`;
+      const updatedAt = record.updatedAt || record.createdAt!;
+      present.add(key);
+      if (deletedAt.has(key)) {
+        const readdedAt = deletedAt.get(key)! > updatedAt ? deletedAt.get(key)! : updatedAt;
+        return [{ kind, id: record.id!, updatedAt: readdedAt, data: record }];
+      }
+      return !since || updatedAt > since ? [{ kind, id: record.id!, updatedAt, data: record }] : [];
+    });
+
+    const changes = [
+      ...changed('vocabulary', await vocabularyStore.getAll()),
+      ...changed('writing', await writingStore.getAll()),
+      ...changed('deck', await deckStore.getAll())
+    ];
+    tombstones
+      .filter(t => !present.has(t.key))
+      .forEach(t => changes.push({ kind: t.kind, id: t.id, updatedAt: t.deletedAt, deleted: true }));
+    return { changes, tombstones };
+  },
+
+  /**
+   * Write records pulled from the server, keeping their timestamps. Remote deletions of cards and
+   * writing logs go to the local trash; deleted decks are removed outright.
+   */
+  async applyRemote(vocabulary: VocabularyItem[], writing: WritingEntry[], decks: Deck[], deletions: { kind: SyncKind, id: string }[]): Promise<void> {
+    if (vocabulary.length) await vocabularyStore.putMany(vocabulary, { preserveTimestamps: true });
+    if (writing.length) await writingStore.putMany(writing, { preserveTimestamps: true });
+    if (decks.length) await deckStore.putMany(decks, { preserveTimestamps: true });
+    for (const deletion of deletions) {
+      if (deletion.kind === 'deck') await deleteRecord(DECK_STORE, deletion.id);
+      else await trashStore.moveToTrash(deletion.kind, deletion.id, false);
+    }
+  },
+
+  // Forget deletions once the server has them (unless they were deleted again meanwhile)
+  async clearTombstones(pushed: Tombstone[]): Promise<void> {
+    if (pushed.length === 0) return;
+    const db = await openDB();
+    const tx = db.transaction(TOMBSTONE_STORE, 'readwrite');
+    for (const tombstone of pushed) {
+      const current = await promisify<Tombstone | undefined>(tx.objectStore(TOMBSTONE_STORE).get(tombstone.key));
+      if (current && current.deletedAt === tombstone.deletedAt) tx.objectStore(TOMBSTONE_STORE).delete(tombstone.key);
+    }
+    return completion(tx);
+  }
+};
+
+const CATEGORY_STORES: [StoreCategory, string][] = [
+  ['vocabulary', VOCAB_STORE],
+  ['writing', WRITING_STORE],
+  ['decks', DECK_STORE],
+  ['images', IMAGE_STORE],
+  ['trash', TRASH_STORE],
+  ['snapshots', SNAPSHOT_STORE],
+  ['aiCache', AI_CACHE_STORE],
+  ['other', STORE_NAME],
+  ['other', TOMBSTONE_STORE],
+  ['other', AI_USAGE_STORE]
+];
+
+// Rough on-disk size of a stored value: blob sizes plus the JSON length of everything else
+const approximateSize = (value: unknown): number => {
+  if (value instanceof Blob) return value.size;
+  if (value && typeof value === 'object') {
+    let blobBytes = 0;
+    const json = JSON.stringify(value, (_key, v) => {
+      if (v instanceof Blob) {
+        blobBytes += v.size;
+        return null;
+      }
+      return v;
+    });
+    return blobBytes + (json ? json.length : 0);
+  }
+  return JSON.stringify(value ?? null).length;
+};
+
+/**
+ * Estimate how many bytes each category of the active profile's database takes.
+ */
+export const measureStores = async (): Promise<Record<StoreCategory, number>> => {
+  const db = await openDB();
+  const totals: Record<StoreCategory, number> = { vocabulary: 0, writing: 0, decks: 0, images: 0, trash: 0, snapshots: 0, aiCache: 0, other: 0 };
+  const tx = db.transaction(CATEGORY_STORES.map(([, name]) => name), 'readonly');
+  await Promise.all(CATEGORY_STORES.map(([category, name]) => new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(name).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      totals[category] += approximateSize(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  })));
+  return totals;
+};
+
 export const storage = {
   /**
-   * Get value from IDB. 
+   * Get value from IDB.
    * Includes automatic migration from localStorage if IDB is empty but localStorage has data.
    */
   async get<T>(key: string): Promise<T | null> {
@@ -52,14 +1136,14 @@ export const storage = {
           const parsed = JSON.parse(localData);
           await this.set(key, parsed);
           // Optional: Clear localStorage to free up quota, or keep as backup until confirmed
-          // localStorage.removeItem(key); 
+          // localStorage.removeItem(key);
           return parsed;
         } catch (e) {
           console.error(`Failed to migrate ${key}`, e);
           return null;
         }
       }
-      
+
       return null;
     } catch (error) {
       console.error(`Storage get error for ${key}:`, error);
@@ -78,7 +1162,7 @@ export const storage = {
       const store = tx.objectStore(STORE_NAME);
       const request = store.put(value, key);
       request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      request.onerror = () => reject(toStorageError(request.error));
     });
   },
 
@@ -96,18 +1180,35 @@ export const storage = {
       request.onerror = () => reject(request.error);
     });
   },
-  
+
+  /**
+   * Wipe the vocabulary, writing logs and their images.
+   * Trash, snapshots and decks are kept so the wipe can be undone, and only MemoraLink's own
+   * localStorage keys are removed (the saved login survives).
+   */
   async clearAll(): Promise<void> {
+    // Images of trashed cards must survive so those cards can still be restored, and decks keep their covers
+    const keptImages = new Set([
+      ...(await trashStore.getAll()).flatMap(entry => cardImageIds(entry.record as VocabularyItem)),
+      ...(await deckStore.getAll()).map(deck => deck.coverImageId)
+    ].filter(Boolean));
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-       const tx = db.transaction(STORE_NAME, 'readwrite');
-       const store = tx.objectStore(STORE_NAME);
-       const request = store.clear();
-       request.onsuccess = () => {
-         localStorage.clear();
-         resolve();
-       };
-       request.onerror = () => reject(request.error);
-    });
+    const tx = db.transaction([VOCAB_STORE, WRITING_STORE, IMAGE_STORE, TOMBSTONE_STORE], 'readwrite');
+    addTombstones(tx, 'vocabulary', await promisify(tx.objectStore(VOCAB_STORE).getAllKeys()));
+    addTombstones(tx, 'writing', await promisify(tx.objectStore(WRITING_STORE).getAllKeys()));
+    tx.objectStore(VOCAB_STORE).clear();
+    tx.objectStore(WRITING_STORE).clear();
+    const images = tx.objectStore(IMAGE_STORE).openKeyCursor();
+    images.onsuccess = () => {
+      const cursor = images.result;
+      if (!cursor) return;
+      if (!keptImages.has(cursor.primaryKey as string)) tx.objectStore(IMAGE_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    await completion(tx);
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith('memoralink_') && !PRESERVED_LOCAL_KEYS.includes(key))
+      .forEach(key => localStorage.removeItem(key));
   }
 };
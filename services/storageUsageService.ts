@@ -0,0 +1,123 @@
+import { VocabularyItem } from "../types";
+import { cardImageIds, vocabularyStore, writingStore, imageStore, trashStore, deckStore, measureStores, StoreCategory } from "./storage";
+
+export interface UsageCategory {
+  key: StoreCategory | 'session';
+  label: string;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  usage?: number; // Bytes used by this origin, as reported by the browser
+  quota?: number;
+  persisted: boolean | null; // null when the browser has no Storage API
+  categories: UsageCategory[];
+}
+
+const CATEGORY_LABELS: Record<StoreCategory, string> = {
+  images: 'Images',
+  vocabulary: 'Vocabulary cards',
+  writing: 'Writing logs',
+  decks: 'Decks',
+  trash: 'Trash',
+  snapshots: 'Snapshots',
+  aiCache: 'AI answer cache',
+  other: 'Settings, sync queue & AI usage log'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatBytes = (bytes: number = 0): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const sessionCacheBytes = () => Object.keys(sessionStorage).reduce((sum, key) => sum + (sessionStorage.getItem(key) || '').length * 2, 0);
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const measured = await measureStores();
+  const categories: UsageCategory[] = (Object.keys(CATEGORY_LABELS) as StoreCategory[])
+    .map(key => ({ key, label: CATEGORY_LABELS[key], bytes: measured[key] }));
+  categories.push({ key: 'session', label: 'Session caches', bytes: sessionCacheBytes() });
+
+  let usage: number | undefined;
+  let quota: number | undefined;
+  let persisted: boolean | null = null;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage;
+    quota = estimate.quota;
+  }
+  if (navigator.storage?.persisted) {
+    persisted = await navigator.storage.persisted();
+  }
+  return { usage, quota, persisted, categories: categories.sort((a, b) => b.bytes - a.bytes) };
+};
+
+/**
+ * Ask the browser not to evict our data under storage pressure. Browsers may grant this silently or refuse.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+// When a card was last used: its last review, or when it was added if it was never reviewed
+const lastActivity = (item: VocabularyItem) => Date.parse(item.review?.lastReviewed || item.createdAt || '') || 0;
+
+/**
+ * Drop the images of cards not used in `days` days. Returns how many cards and bytes were freed.
+ */
+export const removeImagesFromOldCards = async (days: number): Promise<{ cards: number, bytes: number }> => {
+  const cutoff = Date.now() - days * DAY_MS;
+  const targets = (await vocabularyStore.getAll()).filter(item => (cardImageIds(item).length > 0 || item.image) && lastActivity(item) < cutoff);
+  let cards = 0;
+  let bytes = 0;
+  for (const target of targets) {
+    // Strip the latest stored version, so edits made since the scan are kept
+    let removed: string[] = [];
+    const saved = await vocabularyStore.update(target.id!, current => {
+      removed = cardImageIds(current);
+      bytes += current.image?.length || 0;
+      const { image, imageId, altImageIds, ...rest } = current;
+      return rest;
+    });
+    if (!saved) continue;
+    cards++;
+    for (const id of removed) {
+      const stored = await imageStore.get(id);
+      bytes += stored ? stored.blob.size + stored.thumbnail.size : 0;
+      await imageStore.delete(id);
+    }
+  }
+  return { cards, bytes };
+};
+
+/**
+ * Permanently delete writing logs older than `days` days. Returns how many were removed.
+ */
+export const pruneWritingLogs = async (days: number): Promise<number> => {
+  const cutoff = Date.now() - days * DAY_MS;
+  const old = (await writingStore.getAll()).filter(entry => (Date.parse(entry.createdAt || '') || 0) < cutoff);
+  for (const entry of old) {
+    await writingStore.delete(entry.id);
+  }
+  return old.length;
+};
+
+/**
+ * Delete stored images no card, trashed card or deck cover points at, e.g. left behind by an interrupted upload.
+ */
+export const removeOrphanedImages = async (): Promise<number> => {
+  const referenced = new Set<string>();
+  (await vocabularyStore.getAll()).forEach(item => cardImageIds(item).forEach(id => referenced.add(id)));
+  (await trashStore.getAll()).forEach(entry => cardImageIds(entry.record as VocabularyItem).forEach(id => referenced.add(id)));
+  (await deckStore.getAll()).forEach(deck => deck.coverImageId && referenced.add(deck.coverImageId));
+  const orphans = (await imageStore.listIds()).filter(id => !referenced.has(id));
+  for (const id of orphans) {
+    await imageStore.delete(id);
+  }
+  return orphans.length;
+};
@@ -0,0 +1,185 @@
+import { VocabularyItem, WritingEntry, Deck } from "../types";
+import { storage, syncStore, vocabularyStore, writingStore, deckStore, generateId, SyncChange, SyncKind } from "./storage";
+import { mergeVocabularyItems } from "./backupService";
+import { vaultState } from "./cryptoService";
+
+// Per-profile sync settings, kept in the profile's appData
+const SYNC_KEY = 'memoralink_sync';
+export const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SyncConfig {
+  serverUrl: string;
+  token: string;
+  deviceId: string; // Lets the server skip sending a device its own changes
+  cursor: number; // Server revision already pulled
+  lastSyncedAt?: string; // Local time the last successful sync started; later edits are pushed next time
+  autoSync: boolean;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// Images stay on the device they were added on; only the card text and review state travel
+const toWire = (change: SyncChange): SyncChange => {
+  if (!change.data || change.kind === 'writing') return change;
+  if (change.kind === 'deck') {
+    const { coverImageId, ...data } = change.data as Deck;
+    return { ...change, data: data as Deck };
+  }
+  const { image, imageId, altImageIds, ...data } = change.data as VocabularyItem;
+  return { ...change, data };
+};
+
+const keepLocalImage = (remote: VocabularyItem, local?: VocabularyItem): VocabularyItem => {
+  if (!local?.imageId && !local?.altImageIds) return remote;
+  return { ...remote, imageId: local.imageId, altImageIds: local.altImageIds };
+};
+
+const keepLocalCover = (remote: Deck, local?: Deck): Deck => {
+  return local?.coverImageId ? { ...remote, coverImageId: local.coverImageId } : remote;
+};
+
+let inFlight: Promise<SyncResult> | null = null;
+
+const runSync = async (config: SyncConfig): Promise<SyncResult> => {
+  const startedAt = new Date().toISOString();
+  const { changes, tombstones } = await syncStore.collectChanges(config.lastSyncedAt);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.serverUrl}/sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.token}` },
+      body: JSON.stringify({ deviceId: config.deviceId, cursor: config.cursor, changes: changes.map(toWire) })
+    });
+  } catch (e) {
+    throw new SyncError(`Could not reach the sync server at ${config.serverUrl}.`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new SyncError(`Sync failed (${response.status}): ${body.error || response.statusText}`);
+  }
+  const result: { accepted: number, changes: SyncChange[], cursor: number } = await response.json();
+
+  const localVocabulary = new Map((await vocabularyStore.getAll()).map(item => [item.id!, item]));
+  const localWriting = new Map((await writingStore.getAll()).map(entry => [entry.id, entry]));
+  const localDecks = new Map((await deckStore.getAll()).map(deck => [deck.id, deck]));
+  // A local record edited since the last sync conflicts with a remote edit of the same record
+  const changedLocally = (record?: { updatedAt?: string }) => !!record && (!config.lastSyncedAt || (record.updatedAt || '') > config.lastSyncedAt);
+
+  const vocabulary: VocabularyItem[] = [];
+  const writing: WritingEntry[] = [];
+  const decks: Deck[] = [];
+  const deletions: { kind: SyncKind, id: string }[] = [];
+  const resave: (VocabularyItem | WritingEntry | Deck)[] = [];
+  let conflicts = 0;
+
+  for (const remote of result.changes) {
+    const local = remote.kind === 'vocabulary' ? localVocabulary.get(remote.id)
+      : remote.kind === 'writing' ? localWriting.get(remote.id)
+      : localDecks.get(remote.id);
+
+    if (remote.deleted) {
+      if (local && changedLocally(local) && (local.updatedAt || '') > remote.updatedAt) {
+        // Edited here after it was deleted there: the edit wins and is pushed again
+        conflicts++;
+        resave.push(local);
+      } else if (local) {
+        deletions.push({ kind: remote.kind, id: remote.id });
+      }
+      continue;
+    }
+
+    const data = { ...remote.data, id: remote.id, updatedAt: remote.updatedAt };
+    if (remote.kind === 'vocabulary') {
+      const incoming = keepLocalImage(data as VocabularyItem, local as VocabularyItem | undefined);
+      if (!local || !changedLocally(local)) {
+        vocabulary.push(incoming);
+      } else {
+        // Edited on both devices: merge field by field, starting from the newer edit
+        conflicts++;
+        const localItem = local as VocabularyItem;
+        const [newer, older] = (localItem.updatedAt || '') >= remote.updatedAt ? [localItem, incoming] : [incoming, localItem];
+        resave.push(keepLocalImage(mergeVocabularyItems(newer, older), localItem));
+      }
+    } else if (!local || !changedLocally(local) || remote.updatedAt > (local.updatedAt || '')) {
+      // Writing logs and decks are rarely edited, so the newer version simply wins
+      if (local && changedLocally(local)) conflicts++;
+      if (remote.kind === 'deck') decks.push(keepLocalCover(data as Deck, local as Deck | undefined));
+      else writing.push(data as WritingEntry);
+    }
+  }
+
+  await syncStore.applyRemote(vocabulary, writing, decks, deletions);
+  // Merged and resurrected records get a fresh timestamp so the next sync pushes them
+  for (const record of resave) {
+    if ('word' in record) await vocabularyStore.put(record);
+    else if ('originalText' in record) await writingStore.put(record);
+    else await deckStore.put(record);
+  }
+  await syncStore.clearTombstones(tombstones);
+  await storage.set(SYNC_KEY, { ...config, cursor: result.cursor, lastSyncedAt: startedAt });
+
+  return { pushed: result.accepted, pulled: result.changes.length, conflicts };
+};
+
+export const syncService = {
+  async getConfig(): Promise<SyncConfig | null> {
+    return storage.get<SyncConfig>(SYNC_KEY);
+  },
+
+  /**
+   * Save the server settings. Pointing at another server or token starts over with a full sync.
+   */
+  async configure(serverUrl: string, token: string, autoSync: boolean): Promise<SyncConfig> {
+    const url = serverUrl.trim().replace(/\/+$/, '');
+    if (!/^https?:\/\//.test(url)) throw new SyncError("The server URL must start with http:// or https://");
+    if (!token.trim()) throw new SyncError("Please enter a sync token.");
+
+    const existing = await this.getConfig();
+    const sameTarget = existing && existing.serverUrl === url && existing.token === token.trim();
+    const config: SyncConfig = {
+      serverUrl: url,
+      token: token.trim(),
+      deviceId: existing?.deviceId || generateId(),
+      cursor: sameTarget ? existing.cursor : 0,
+      lastSyncedAt: sameTarget ? existing.lastSyncedAt : undefined,
+      autoSync
+    };
+    await storage.set(SYNC_KEY, config);
+    return config;
+  },
+
+  async disconnect(): Promise<void> {
+    await storage.remove(SYNC_KEY);
+  },
+
+  /**
+   * Push local changes and pull everyone else's. Concurrent calls share one run.
+   */
+  async sync(): Promise<SyncResult> {
+    if (inFlight) return inFlight;
+    if (vaultState.isEnabled()) {
+      throw new SyncError("Sync isn't available for encrypted libraries yet. Turn off encryption to sync this profile.");
+    }
+    const config = await this.getConfig();
+    if (!config) throw new SyncError("Sync is not set up for this profile.");
+
+    inFlight = runSync(config);
+    try {
+      return await inFlight;
+    } finally {
+      inFlight = null;
+    }
+  }
+};
@@ -0,0 +1,186 @@
+import { AiFeature, AiProvider, AiUsageRecord, AiBudget, ModelPrice, TokenUsage } from "../types";
+import { aiUsageStore, generateId } from "./storage";
+import { AiAbortedError } from "./aiRequest";
+
+// Token accounting for AI calls: every call is logged with its feature, provider and model, costs are
+// estimated from a price table, and optional soft budgets ask before a call is likely to go over.
+
+// List prices in USD per million tokens when this was written. Estimates only: check the providers'
+// pricing pages and override them on the usage page. Models not listed (local ones) count as free.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'deepseek-chat': { inputPerMillion: 0.28, outputPerMillion: 0.42 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 }
+};
+
+export const FEATURE_LABELS: Record<AiFeature, string> = {
+  vocab: 'Vocabulary cards',
+  writing: 'Writing Lab',
+  chat: 'Oral Coach',
+  quiz: 'Quiz'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Old calls are dropped after this; enough for a year of monthly totals
+const RETENTION_DAYS = 400;
+// Output size assumed for a budget estimate when there are no earlier calls to go by
+const DEFAULT_OUTPUT_TOKENS = 800;
+
+let prices: Record<string, ModelPrice> = DEFAULT_PRICES;
+let budget: AiBudget = {};
+
+// Set from the active profile's settings
+export const configureUsage = (settings: { prices?: Record<string, ModelPrice>, budget?: AiBudget }) => {
+  prices = { ...DEFAULT_PRICES, ...settings.prices };
+  budget = settings.budget || {};
+};
+
+export const getPrices = (): Record<string, ModelPrice> => prices;
+
+export const getBudget = (): AiBudget => budget;
+
+/**
+ * Estimated USD cost of a call, or 0 for a model without a price.
+ */
+export const costOf = (usage: TokenUsage): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Calendar days and months in local time, e.g. "2024-05-31" and "2024-05"
+export const monthKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+export const dayKey = (date: Date) => `${monthKey(date)}-${pad(date.getDate())}`;
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+let isPruned = false;
+
+export const recordUsage = async (feature: AiFeature, provider: AiProvider, usage: TokenUsage): Promise<void> => {
+  await aiUsageStore.add({ id: generateId(), at: new Date().toISOString(), feature, provider, ...usage });
+  if (!isPruned) {
+    isPruned = true;
+    await aiUsageStore.deleteBefore(new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString());
+  }
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpriced: number; // Calls to models without a price, not included in the cost
+}
+
+export interface UsageRow extends UsageTotals {
+  key: string; // The day, month, feature or "provider · model" the row totals
+}
+
+export interface UsageReport {
+  today: UsageTotals;
+  month: UsageTotals;
+  daily: UsageRow[]; // Last 30 days with any calls, newest first
+  monthly: UsageRow[]; // Last 12 months with any calls, newest first
+  byFeature: UsageRow[]; // This month
+  byModel: UsageRow[]; // This month
+  models: string[]; // Every model seen, for the price table
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 });
+
+const addTo = (totals: UsageTotals, record: AiUsageRecord) => {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += costOf(record);
+  if (!prices[record.model]) totals.unpriced++;
+};
+
+const sum = (records: AiUsageRecord[]): UsageTotals => {
+  const totals = emptyTotals();
+  records.forEach(record => addTo(totals, record));
+  return totals;
+};
+
+const groupBy = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (!rows.has(key)) rows.set(key, { key, ...emptyTotals() });
+    addTo(rows.get(key)!, record);
+  }
+  return Array.from(rows.values());
+};
+
+export const getUsageReport = async (): Promise<UsageReport> => {
+  const now = new Date();
+  const firstMonth = new Date(now.getFullYear(), now.getMonth() - 11, 1);
+  const records = await aiUsageStore.getSince(firstMonth.toISOString());
+  const thisMonth = records.filter(record => Date.parse(record.at) >= startOfMonth(now).getTime());
+  const today = dayKey(now);
+  const thirtyDaysAgo = now.getTime() - 30 * DAY_MS;
+
+  return {
+    today: sum(thisMonth.filter(record => dayKey(new Date(record.at)) === today)),
+    month: sum(thisMonth),
+    daily: groupBy(records.filter(record => Date.parse(record.at) >= thirtyDaysAgo), record => dayKey(new Date(record.at))).reverse(),
+    monthly: groupBy(records, record => monthKey(new Date(record.at))).reverse(),
+    byFeature: groupBy(thisMonth, record => record.feature).sort((a, b) => b.cost - a.cost || b.calls - a.calls),
+    byModel: groupBy(thisMonth, record => `${record.provider} · ${record.model}`).sort((a, b) => b.cost - a.cost || b.calls - a.calls),
+    models: Array.from(new Set([...Object.keys(DEFAULT_PRICES), ...records.map(record => record.model)]))
+  };
+};
+
+export const clearUsage = (): Promise<void> => aiUsageStore.clear();
+
+// --- Soft budgets ---
+
+export interface BudgetWarning {
+  period: 'day' | 'month';
+  limitUsd: number;
+  spentUsd: number;
+  estimateUsd: number; // Rough cost of the call about to be made
+}
+
+// Asks the user whether to go over; installed by the app, since services don't show dialogs
+type BudgetGuard = (warning: BudgetWarning) => boolean | Promise<boolean>;
+
+let budgetGuard: BudgetGuard = () => true;
+
+export const setBudgetGuard = (guard: BudgetGuard) => {
+  budgetGuard = guard;
+};
+
+// Periods the user already agreed to go over in, so they are asked once rather than on every call
+const acknowledged = new Set<string>();
+
+/**
+ * Before a call: if it is likely to take today's or this month's spending over a budget, ask first.
+ * Throws AiAbortedError when the user says no. The estimate uses the prompt length (about four
+ * characters a token) and the average output of recent calls of the same feature and model.
+ */
+export const checkBudget = async (feature: AiFeature, model: string, promptChars: number): Promise<void> => {
+  if (!budget.dailyUsd && !budget.monthlyUsd) return;
+  const now = new Date();
+  const records = await aiUsageStore.getSince(startOfMonth(now).toISOString());
+  const similar = records.filter(record => record.feature === feature && record.model === model).slice(-10);
+  const outputTokens = similar.length
+    ? similar.reduce((total, record) => total + record.outputTokens, 0) / similar.length
+    : DEFAULT_OUTPUT_TOKENS;
+  const estimateUsd = costOf({ model, inputTokens: Math.ceil(promptChars / 4), outputTokens });
+
+  const today = dayKey(now);
+  const periods: [BudgetWarning['period'], string, number | undefined, AiUsageRecord[]][] = [
+    ['day', today, budget.dailyUsd, records.filter(record => dayKey(new Date(record.at)) === today)],
+    ['month', monthKey(now), budget.monthlyUsd, records]
+  ];
+  for (const [period, key, limitUsd, inPeriod] of periods) {
+    if (!limitUsd || acknowledged.has(`${period}:${key}`)) continue;
+    const spentUsd = sum(inPeriod).cost;
+    if (spentUsd + estimateUsd <= limitUsd) continue;
+    if (!(await budgetGuard({ period, limitUsd, spentUsd, estimateUsd }))) throw new AiAbortedError();
+    acknowledged.add(`${period}:${key}`);
+  }
+};
@@ -0,0 +1,117 @@
+import { storage, reencryptLibrary } from "./storage";
+import { vaultState, createKdfParams, deriveKey, encryptJson, decryptJson, KdfParams, EncryptedPayload, WrongPassphraseError, VaultLockedError } from "./cryptoService";
+
+// Stored in the profile's appData; holds no secrets, only what is needed to re-derive and check the key
+const VAULT_KEY = 'memoralink_vault';
+const VERIFIER_TEXT = 'memoralink-vault';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultConfig {
+  kdf: KdfParams;
+  verifier: EncryptedPayload; // A known value encrypted with the key, to check a passphrase on unlock
+  enabledAt: string;
+}
+
+let config: VaultConfig | null = null;
+// Kept while unlocked so encrypted backups can carry the same KDF parameters
+let unlockedKdf: KdfParams | null = null;
+
+const checkPassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+};
+
+// Derive the key for a passphrase and prove it against the stored verifier
+const openWith = async (passphrase: string, vault: VaultConfig): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, vault.kdf);
+  const check = await decryptJson<string>(vault.verifier, key);
+  if (check !== VERIFIER_TEXT) throw new WrongPassphraseError();
+  return key;
+};
+
+const buildConfig = async (passphrase: string): Promise<{ config: VaultConfig, key: CryptoKey }> => {
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  return { key, config: { kdf, verifier: await encryptJson(VERIFIER_TEXT, key), enabledAt: new Date().toISOString() } };
+};
+
+// Run a re-encryption; if it fails, put the in-memory state back so it matches what is still on disk
+const rewrite = async (nextEnabled: boolean, nextKey: CryptoKey | null, nextConfig: VaultConfig | null) => {
+  const previous = { enabled: vaultState.isEnabled(), key: vaultState.isEnabled() ? vaultState.requireKey() : null };
+  try {
+    await reencryptLibrary(() => vaultState.set(nextEnabled, nextKey), { [VAULT_KEY]: nextConfig ?? undefined });
+    config = nextConfig;
+  } catch (e) {
+    vaultState.set(previous.enabled, previous.key);
+    throw e;
+  }
+};
+
+export const vaultService = {
+  /**
+   * Read the active profile's vault settings. Starts locked when the vault is on.
+   */
+  async load(): Promise<boolean> {
+    config = await storage.get<VaultConfig>(VAULT_KEY);
+    unlockedKdf = null;
+    vaultState.set(!!config, null);
+    return !!config;
+  },
+
+  isEnabled: () => vaultState.isEnabled(),
+  isUnlocked: () => vaultState.isUnlocked(),
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!config) return;
+    const key = await openWith(passphrase, config);
+    vaultState.set(true, key);
+    unlockedKdf = config.kdf;
+  },
+
+  lock() {
+    if (!config) return;
+    vaultState.set(true, null);
+    unlockedKdf = null;
+  },
+
+  /**
+   * Turn the vault on and encrypt every existing record.
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (config) throw new Error("Encryption is already enabled.");
+    checkPassphrase(passphrase);
+    const next = await buildConfig(passphrase);
+    await rewrite(true, next.key, next.config);
+    unlockedKdf = next.config.kdf;
+  },
+
+  /**
+   * Re-encrypt everything under a new passphrase (with a fresh salt).
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    if (!config) throw new Error("Encryption is not enabled.");
+    checkPassphrase(next);
+    vaultState.set(true, await openWith(current, config));
+    const built = await buildConfig(next);
+    await rewrite(true, built.key, built.config);
+    unlockedKdf = built.config.kdf;
+  },
+
+  /**
+   * Decrypt every record back to plaintext and remove the vault.
+   */
+  async disable(current: string): Promise<void> {
+    if (!config) return;
+    const key = await openWith(current, config);
+    vaultState.set(true, key);
+    await rewrite(false, null, null);
+    unlockedKdf = null;
+  },
+
+  // Key and KDF parameters for encrypting a backup with the vault passphrase
+  getBackupKey(): { key: CryptoKey, kdf: KdfParams } {
+    if (!config || !unlockedKdf) throw new VaultLockedError();
+    return { key: vaultState.requireKey(), kdf: unlockedKdf };
+  }
+};
@@ -5,12 +5,169 @@ export enum AppView {
   WRITING = 'WRITING',
   SPEAKING = 'SPEAKING',
   LIBRARY = 'LIBRARY',
-  QUIZ = 'QUIZ'
+  QUIZ = 'QUIZ',
+  REVIEW = 'REVIEW',
+  USAGE = 'USAGE'
 }
 
-export type AiProvider = 'gemini' | 'deepseek';
+// Id of a provider in the registry (services/aiProviders.ts), e.g. 'gemini', 'deepseek', 'openai-compatible'
+export type AiProvider = string;
+
+// A runtime-configured OpenAI-compatible endpoint: Ollama, LM Studio, a corporate gateway...
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+// How patient AI calls are: each attempt's timeout, and how many times a failed call is retried
+export interface AiRequestSettings {
+  timeoutMs: number;
+  maxRetries: number; // Extra attempts after the first, for timeouts, 429 and 5xx only
+}
+
+// Reuse of earlier AI answers to identical requests
+export interface AiCacheSettings {
+  enabled: boolean;
+  ttlDays: number; // Older answers are asked for again (but still used while offline)
+  maxMegabytes: number; // Least recently used answers are evicted beyond this
+}
+
+// Failures the offline mock provider can simulate
+export type MockFailure = 'server' | 'rateLimit' | 'auth' | 'network' | 'timeout' | 'badJson';
+
+// The offline mock provider, for development and demos without API keys
+export interface MockProviderSettings {
+  latencyMs: number; // Before the reply (chat replies then stream in word by word)
+  failEvery: number; // Every Nth call fails with `failure`; 0 never fails
+  failure: MockFailure;
+}
+
+// The app features AI calls are billed to on the usage page
+export type AiFeature = 'vocab' | 'writing' | 'chat' | 'quiz';
+
+// Tokens one successful call used, as reported by the provider
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Including any "thinking" tokens, which are billed as output
+}
+
+export interface AiUsageRecord extends TokenUsage {
+  id: string;
+  at: string; // ISO timestamp of the call
+  feature: AiFeature;
+  provider: AiProvider;
+}
+
+// Which provider each feature uses, and the providers tried in turn when it fails
+export interface AiRouting {
+  features: Partial<Record<AiFeature, AiProvider>>; // Features not listed use the provider chosen in the header
+  fallbacks: AiProvider[];
+}
+
+// The provider that answered an AI call, and any tried before it that failed
+export interface AiAnswerRoute {
+  provider: AiProvider;
+  skipped: { provider: AiProvider, reason: string }[];
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Soft limits in USD: going over asks for confirmation first, it never blocks
+export interface AiBudget {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+// A kind of scene the AI may build a mnemonic around, e.g. "Anime/Movies"
+export interface MnemonicCategory {
+  id: string;
+  label: string;
+  description: string; // What the scene should use, as told to the AI
+  enabled: boolean;
+}
+
+export type PromptTemplateId = 'vocabularyByTopic' | 'vocabularyFromList' | 'writingAnalysis';
+
+// A user's edit of a built-in prompt template
+export interface PromptOverride {
+  system: string;
+  prompt: string;
+  baseVersion: number; // Version of the built-in template it was edited from
+}
+
+export interface PromptSettings {
+  overrides?: Partial<Record<PromptTemplateId, PromptOverride>>;
+  mnemonicCategories?: MnemonicCategory[];
+  mnemonicNote?: string; // Extra style rule for every mnemonic, e.g. "Workplace situations only"
+}
+
+// One cached AI answer, keyed by a fingerprint of provider, model, system prompt and user prompt
+export interface AiCacheEntry {
+  key: string;
+  provider: AiProvider;
+  model: string;
+  schema: string; // What kind of answer it is, e.g. "vocabulary cards"
+  response: string; // The raw reply that passed validation
+  bytes: number;
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Preferences stored inside each profile's own database
+export interface ProfileSettings {
+  aiProvider?: AiProvider;
+  customEndpoint?: OpenAiCompatibleConfig;
+  aiRequest?: Partial<AiRequestSettings>;
+  aiCache?: Partial<AiCacheSettings>;
+  aiPrices?: Record<string, ModelPrice>; // By model name; overrides the built-in estimates
+  aiBudget?: AiBudget;
+  prompts?: PromptSettings;
+  mockProvider?: Partial<MockProviderSettings>;
+  aiRouting?: AiRouting;
+}
+
+// Recall grades offered after each flashcard is revealed
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Spaced-repetition scheduling state (SM-2 style)
+export interface ReviewState {
+  ease: number; // Ease factor, starts at 2.5 and never drops below 1.3
+  interval: number; // Current interval in days (0 = still in learning)
+  due: string; // ISO timestamp of the next review
+  lapses: number; // Times the card was forgotten after graduating
+  reps: number; // Successful reviews in a row
+  lastReviewed?: string;
+}
+
+// Where a card came from: the feature that produced it, for what, and (for AI cards) which model
+export type CardSourceModule = 'topic' | 'list' | 'import' | 'writing' | 'quiz';
+
+export interface CardProvenance {
+  module: CardSourceModule;
+  context?: string; // Topic and difficulty, writing scenario, quiz scenario or imported file name
+  provider?: AiProvider; // Missing for cards imported without AI help
+  model?: string;
+  createdAt: string; // ISO timestamp of the generation or import, not of the save
+  writingEntryId?: string; // WritingEntry of the analysis that suggested the card (may never have been saved)
+}
 
 export interface VocabularyItem {
+  id?: string; // Assigned by storage when the card is first saved
+  createdAt?: string; // ISO timestamp, assigned by storage
+  updatedAt?: string; // ISO timestamp, refreshed by storage on every save
   word: string;
   phonetic?: string;
   definition: string;
@@ -19,7 +176,54 @@ export interface VocabularyItem {
   mnemonic: string; // Critical for memory retention
   context: string;
   tags?: string[]; // New: For categorization (e.g., Emotion, Verb)
-  image?: string; // New: Base64 image string for visual association
+  deckIds?: string[]; // Decks the card belongs to (a card can be in several)
+  image?: string; // Legacy inline data URL; also used to carry images inside backups
+  imageId?: string; // Key of the compressed image in the images store
+  altImageIds?: string[]; // Other images kept when duplicates were merged into this card
+  mergedFrom?: MergedSource[]; // Duplicate cards merged into this one, oldest first
+  source?: CardProvenance; // Missing on cards saved before provenance was recorded
+  review?: ReviewState; // Missing on cards that have never been reviewed
+}
+
+// A duplicate card that was folded into another by the duplicate finder
+export interface MergedSource {
+  id: string;
+  word: string;
+  context?: string;
+  createdAt?: string;
+  source?: CardProvenance;
+  mergedAt: string;
+}
+
+export const DECK_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+
+// A named collection of cards, e.g. "Job Interview Prep"
+export interface Deck {
+  id: string;
+  name: string;
+  description?: string;
+  coverImageId?: string; // Key of the cover in the images store
+  targetLevel?: string; // One of DECK_LEVELS; preselected when generating words for the deck
+  createdAt?: string; // ISO timestamp, assigned by storage
+  updatedAt?: string; // ISO timestamp, refreshed by storage on every save
+}
+
+// Card image kept outside the vocabulary record so lists load without image data
+export interface StoredImage {
+  id: string;
+  blob: Blob; // Resized, re-encoded full image (WebP, or JPEG where WebP encoding is unsupported)
+  thumbnail: Blob; // Small preview for the Library grid
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+// What the Writing Lab (and the quiz feedback) gets back from the AI
+export interface WritingAnalysis {
+  correction: string;
+  improvedVersion: string;
+  explanation: string;
+  keyVocabulary: VocabularyItem[]; // Suggested words; empty when none were usable
 }
 
 export interface WritingEntry {
@@ -30,6 +234,25 @@ export interface WritingEntry {
   explanation: string;
   context: string;
   date: string;
+  createdAt?: string; // ISO timestamp, assigned by storage
+  updatedAt?: string; // ISO timestamp, refreshed by storage on every save
+}
+
+// A soft-deleted record, kept until restored or purged
+export interface TrashEntry {
+  id: string; // Same as the deleted record's id
+  kind: 'vocabulary' | 'writing';
+  record: VocabularyItem | WritingEntry;
+  deletedAt: string;
+}
+
+// Automatic copy of the library taken before a destructive bulk action
+export interface LibrarySnapshot {
+  id: string;
+  createdAt: string;
+  reason: string;
+  vocabulary: VocabularyItem[]; // Images embedded as data URLs so the snapshot is self-contained
+  writingLogs: WritingEntry[];
 }
 
 export interface ChatMessage {